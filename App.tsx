@@ -1,11 +1,45 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useSyncExternalStore } from 'react';
 import JSZip from 'jszip';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { Button } from './components/Button';
 import { ApiKeyModal } from './components/ApiKeyModal';
-import { AspectRatio, ImageItem, GenerationSettings, ExportFormat, ImageMetadata, CreditInfo } from './types';
-import { generateEditedImage } from './services/gemini';
+import { ModelBadge } from './components/ModelBadge';
+import { CreditTracker } from './components/CreditTracker';
+import { PresetLibraryModal } from './components/PresetLibraryModal';
+import { VariantDialog } from './components/VariantDialog';
+import { ItemSettingsEditor } from './components/ItemSettingsEditor';
+import { AspectRatioPicker } from './components/AspectRatioPicker';
+import { MaskEditor } from './components/MaskEditor';
+import { ReferenceList } from './components/ReferenceList';
+import { TextToImageDialog } from './components/TextToImageDialog';
+import { EditTimeline } from './components/EditTimeline';
+import { CompareSource, CompareViewer } from './components/CompareViewer';
+import { ReviewDecision, ReviewMode } from './components/ReviewMode';
+import { RetryStatus, useCountdown } from './components/RetryStatus';
+import { StageProgress } from './components/StageProgress';
+import { AspectRatio, ImageItem, GenerationSettings, ExportFormat, ExportOptions, ExportGrouping, EncoderOptions, UploadSettings, CreditInfo, BudgetSettings, GenerationInfo, GenerationJob, PromptPreset, SettingsOverrides, ImageSize, ConversionMode } from './types';
+import { DEFAULT_RETRY_POLICY, generateWithRetry } from './services/gemini';
+import { DEFAULT_PRICING, estimateCost } from './services/pricing';
+import { getSpendTotals, isBudgetExceeded, loadBudget, recordSpend, saveBudget } from './services/spendLedger';
+import { createJobQueue } from './services/jobQueue';
+import { createItemStore, useItems } from './state/itemStore';
+import { BUILT_IN_PRESETS, deleteUserPreset, extractVariables, getMissingVariables, loadUserPresets, REMOVE_TEXT_PRESET_ID, resolvePrompt, saveUserPreset } from './services/presets';
+import { buildVariantSettings, createVariantItems, describeSettings, groupVariants, snapshotSettings, VariantRequest } from './services/variants';
+import { EncodedImage, encodeCanvas, encodeImage, isFormatSupported, loadImage, resizeToExactSize, scaleToWidth } from './services/imageOps';
+import { EXPORT_FORMATS, getEncoderOptions, getFormatInfo } from './services/exportFormats';
+import { canvasToDataUrl, compositeOutpaint, CONVERSION_MODES, DEFAULT_PAD_COLOR, getConversionMode, isLocalMode, OUTPAINT_PROMPT, renderLocalConversion } from './services/conversion';
+import { formatSize, MODEL_RATIO_TOLERANCE, ratioFromSize, sizeMatchesRatio } from './services/aspectRatios';
+import { compositeMasked, createPaddingMask, maskToModelInput } from './services/mask';
+import { toReferencePayloads } from './services/references';
+import { createPromptItems, resultToSourceFile, TextToImageRequest } from './services/textToImage';
+import { buildExportFile, EXIF_GROUPS } from './services/exportMetadata';
+import { buildManifest, buildSrcsetSnippet, EXPORT_GROUPINGS, RESPONSIVE_WIDTHS, srcsetSnippetPath, getResultExtension, loadExportOptions, NAME_TOKENS, planExport, renderFileName, saveExportOptions } from './services/exportNaming';
+import { ACCEPTED_FILE_TYPES, ingestFile, isImageCandidate, readImageMetadata } from './services/ingest';
+import { loadUploadSettings, prepareUpload, saveUploadSettings, sourceBudget, UPLOAD_EDGE_OPTIONS, UPLOAD_QUALITY_OPTIONS } from './services/upload';
+import { appendReviewNote, hasResultStatus, isReviewable } from './services/review';
+import { appendStep, buildFollowUpPrompt, cancelledPatch, createEditStep, findStep, selectStep, stepLineage, stepNumber } from './services/editHistory';
+import { clearWorkspace, getStorageEstimate, loadWorkspace, saveSettings, syncWorkspace } from './services/workspace';
 
 // --- UTILS ---
 
@@ -18,44 +52,6 @@ const formatBytes = (bytes: number, decimals = 2) => {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
 };
 
-const getImageMetadata = (file: File): Promise<ImageMetadata> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    img.onload = () => {
-      resolve({
-        width: img.naturalWidth,
-        height: img.naturalHeight,
-        sizeBytes: file.size,
-        mimeType: file.type
-      });
-      URL.revokeObjectURL(url);
-    };
-    img.src = url;
-  });
-};
-
-const convertImageFormat = (imageUrl: string, format: ExportFormat): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "Anonymous";
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.naturalWidth;
-      canvas.height = img.naturalHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error("Canvas context failed"));
-        return;
-      }
-      ctx.drawImage(img, 0, 0);
-      resolve(canvas.toDataURL(format, 0.92)); // High Quality
-    };
-    img.onerror = (e) => reject(e);
-    img.src = imageUrl;
-  });
-};
-
 // --- TYPES ---
 declare global {
   interface AIStudio {
@@ -72,35 +68,64 @@ declare global {
   }
 }
 
+// Generations per item when retrying on a ratio mismatch, the first included
+const MAX_RATIO_PASSES = 2;
+
+const DEFAULT_SETTINGS: GenerationSettings = {
+  prompt: "",
+  aspectRatio: AspectRatio.YOUTUBE,
+  exportFormat: 'image/jpeg'
+};
+
 const App: React.FC = () => {
-  const [items, setItems] = useState<ImageItem[]>([]);
-  const [settings, setSettings] = useState<GenerationSettings>({
-    prompt: "",
-    aspectRatio: AspectRatio.YOUTUBE,
-    exportFormat: 'image/jpeg'
-  });
+  // Items live in an external store so running jobs always read the current state
+  const [itemStore] = useState(() => createItemStore());
+  const items = useItems(itemStore);
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_SETTINGS);
+
+  // Workspace Persistence
+  const [workspaceRestored, setWorkspaceRestored] = useState(false);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const restoreStartedRef = useRef(false);
+  const resumeIdsRef = useRef<string[]>([]);
   const [isDragging, setIsDragging] = useState(false);
-  const [globalLoading, setGlobalLoading] = useState(false);
 
   // API Key Management
   const [hasApiKey, setHasApiKey] = useState(false);
   const [isKeyModalOpen, setIsKeyModalOpen] = useState(false);
 
-  // Credit Tracking - Gemini 3 Pro Image Preview pricing
-  // Credit Tracking - Gemini 3 Pro Image Preview pricing
-  const COST_PER_IMAGE = 0.134; // $0.134 per image output (official pricing)
+  // Credit Tracking - priced per model from response usage, persisted in IndexedDB
   const [creditInfo, setCreditInfo] = useState<CreditInfo>({
     sessionGenerations: 0,
     estimatedSessionCost: 0,
-    costPerImage: COST_PER_IMAGE
+    todayCost: 0,
+    todayGenerations: 0,
+    monthCost: 0,
+    monthGenerations: 0
   });
+  const [budget, setBudget] = useState<BudgetSettings>(loadBudget);
+  const [uploadSettings, setUploadSettings] = useState<UploadSettings>(loadUploadSettings);
+  const budgetExceeded = isBudgetExceeded(budget, creditInfo);
 
-  // --- CONSTANTS ---
-  const REMOVE_TEXT_PROMPT = "DESTRUCTIVE OVERRIDE ACTIVE: Identify any text, watermarks, or captions on this image. Remove them completely and intelligently inpaint the background to match the surrounding texture and lighting. The result should be a clean image with NO text. Do not change the aspect ratio or the main subject, only remove the text.";
-
+  // Prompt Presets
+  const [presets, setPresets] = useState<PromptPreset[]>(BUILT_IN_PRESETS);
+  const [isPresetLibraryOpen, setIsPresetLibraryOpen] = useState(false);
+  const activePreset = presets.find(p => p.id === settings.presetId);
+  const missingVariables = activePreset ? getMissingVariables(activePreset.prompt, settings.presetVariables) : [];
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Generation Queue - jobs call the latest processImage through a ref
+  const processImageRef = useRef<(job: GenerationJob, signal: AbortSignal) => Promise<void>>();
+  const [queue] = useState(() => createJobQueue<GenerationJob>({
+    concurrency: 2,
+    run: (job, signal) => processImageRef.current!(job, signal),
+    onCancel: (job) => itemStore.dispatch({ type: 'update', id: job.id, patch: cancelledPatch(itemStore.getItem(job.id)) })
+  }));
+  const queueState = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const queueActive = queueState.running.length + queueState.pending.length > 0;
+  const throttleSecondsLeft = useCountdown(queueState.throttledUntil);
+
   useEffect(() => {
     const checkKey = async () => {
       // 1. Check Google Environment (IDX/SFX)
@@ -124,8 +149,47 @@ const App: React.FC = () => {
       }
     };
     checkKey();
+
+    getSpendTotals()
+      .then(totals => setCreditInfo(prev => ({ ...prev, ...totals })))
+      .catch(e => console.warn("Could not load spend history", e));
+
+    loadUserPresets()
+      .then(userPresets => setPresets([...BUILT_IN_PRESETS, ...userPresets]))
+      .catch(e => console.warn("Could not load presets", e));
+  }, []);
+
+  // Restore the saved workspace once; items that were mid-generation are resumed
+  useEffect(() => {
+    if (restoreStartedRef.current) return;
+    restoreStartedRef.current = true;
+
+    loadWorkspace()
+      .then(({ items: saved, settings: savedSettings }) => {
+        resumeIdsRef.current = saved.filter(i => i.status === 'processing' || i.status === 'queued').map(i => i.id);
+        const restored = saved.map(i => resumeIdsRef.current.includes(i.id) ? { ...i, status: 'idle' as const, retry: undefined, progress: undefined } : i);
+        if (restored.length > 0) itemStore.dispatch({ type: 'add', items: restored });
+        if (savedSettings) setSettings(savedSettings);
+      })
+      .catch(e => console.warn("Could not restore workspace", e))
+      .finally(() => setWorkspaceRestored(true));
   }, []);
 
+  const refreshStorageEstimate = () => {
+    getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  };
+
+  useEffect(() => {
+    if (!workspaceRestored) return;
+    refreshStorageEstimate();
+    return syncWorkspace(itemStore, refreshStorageEstimate);
+  }, [workspaceRestored]);
+
+  useEffect(() => {
+    if (!workspaceRestored) return;
+    saveSettings(settings).catch(e => console.warn("Could not save settings", e));
+  }, [settings, workspaceRestored]);
+
   const handleConnect = async () => {
     // 1. Try Google Environment First
     if (window.aistudio) {
@@ -152,37 +216,70 @@ const App: React.FC = () => {
 
   // --- HANDLERS ---
 
-  // Credit tracking update helper
-  const incrementCredits = () => {
+  // Credit tracking update helper: records the generation in the ledger and refreshes totals
+  const recordGenerationCost = async (itemId: string, generation: GenerationInfo, cost: number) => {
     setCreditInfo(prev => ({
       ...prev,
       sessionGenerations: prev.sessionGenerations + 1,
-      estimatedSessionCost: (prev.sessionGenerations + 1) * COST_PER_IMAGE
+      estimatedSessionCost: prev.estimatedSessionCost + cost
     }));
+
+    try {
+      await recordSpend({ itemId, model: generation.model, usage: generation.usage, cost });
+      const totals = await getSpendTotals();
+      setCreditInfo(prev => ({ ...prev, ...totals }));
+    } catch (e) {
+      console.warn("Could not persist spend entry", e);
+    }
+  };
+
+  const handleBudgetChange = (next: BudgetSettings) => {
+    saveBudget(next);
+    setBudget(next);
   };
 
+  // Quality settings of the selected output format
+  const exportEncoder = getEncoderOptions(settings, settings.exportFormat);
+
+  const handleEncoderChange = (patch: Partial<EncoderOptions>) => {
+    setSettings({ ...settings, encoding: { ...settings.encoding, [settings.exportFormat]: { ...exportEncoder, ...patch } } });
+  };
+
+  const handleUploadSettingsChange = (next: UploadSettings) => {
+    saveUploadSettings(next);
+    setUploadSettings(next);
+  };
+
+  // Files that failed to import in the last upload, shown until dismissed
+  const [ingestErrors, setIngestErrors] = useState<string[]>([]);
+
   const addFiles = async (files: FileList | null) => {
     if (!files) return;
 
     const newItems: ImageItem[] = [];
+    const failed: string[] = [];
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      if (!file.type.startsWith('image/')) continue;
+      if (!isImageCandidate(file)) continue;
 
-      const metadata = await getImageMetadata(file);
-      const previewUrl = URL.createObjectURL(file);
-
-      newItems.push({
-        id: Math.random().toString(36).substr(2, 9),
-        originalFile: file,
-        previewUrl,
-        metadata,
-        status: 'idle'
-      });
+      try {
+        // Converts formats the browser or the model can't use and rejects undecodable files
+        const { file: source, metadata } = await ingestFile(file);
+        newItems.push({
+          id: Math.random().toString(36).substr(2, 9),
+          originalFile: source,
+          previewUrl: URL.createObjectURL(source),
+          metadata,
+          status: 'idle'
+        });
+      } catch (e: any) {
+        failed.push(`${file.name}: ${e.message}`);
+      }
     }
 
-    setItems(prev => [...prev, ...newItems]);
+    setIngestErrors(failed);
+    itemStore.dispatch({ type: 'add', items: newItems });
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -191,39 +288,166 @@ const App: React.FC = () => {
     addFiles(e.dataTransfer.files);
   };
 
-  const processImage = async (id: string, promptOverride?: string) => {
-    if (!hasApiKey) {
-      handleConnect();
-      return;
+  const processLocally = async (item: ImageItem, itemSettings: GenerationSettings) => {
+    itemStore.dispatch({ type: 'update', id: item.id, patch: { status: 'processing', errorMessage: undefined, retry: undefined } });
+    try {
+      const { canvas } = await renderLocalConversion(item.previewUrl, itemSettings);
+      const encoded = encodeCanvas(canvas, itemSettings.exportFormat, getEncoderOptions(itemSettings, itemSettings.exportFormat));
+      const step = createEditStep({
+        prompt: CONVERSION_MODES.find(m => m.id === getConversionMode(itemSettings))?.label ?? '',
+        resultUrl: encoded.url,
+        resultMetadata: {
+          width: canvas.width,
+          height: canvas.height,
+          sizeBytes: Math.round((encoded.url.length * 3) / 4),
+          mimeType: encoded.mimeType
+        }
+      });
+      itemStore.dispatch({
+        type: 'update', id: item.id, patch: { status: 'success', ...appendStep(itemStore.getItem(item.id) ?? item, step) }
+      });
+    } catch (e: any) {
+      itemStore.dispatch({ type: 'update', id: item.id, patch: { status: 'error', errorMessage: e.message } });
     }
+  };
 
-    const item = items.find(i => i.id === id);
+  const processImage = async ({ id }: GenerationJob, signal: AbortSignal) => {
+    const item = itemStore.getItem(id);
     if (!item) return;
+    const itemSettings = item.settings ?? settings;
+    // A follow-up edit works on an earlier result instead of the original
+    const editBase = item.pendingEdit ? findStep(item, item.pendingEdit.fromStepId) : undefined;
+    // Items made from a prompt generate from it again (e.g. after a rejection) rather than editing their own output
+    const fromPrompt = !editBase && !!item.originPrompt;
+    // Text-to-image items have nothing to crop or pad
+    const mode = fromPrompt || editBase ? 'ai' : getConversionMode(itemSettings);
+
+    // Free modes never reach the model, so they skip the budget check and the ledger
+    if (isLocalMode(mode)) {
+      await processLocally(item, itemSettings);
+      return;
+    }
+
+    // Re-read the ledger before each job so the budget cap applies mid-batch
+    const totals = await getSpendTotals().catch(() => creditInfo);
+    if (isBudgetExceeded(budget, totals)) {
+      console.warn("Budget cap reached, stopping batch");
+      setCreditInfo(prev => ({ ...prev, ...totals }));
+      queue.getSnapshot().pending.forEach(queue.cancel);
+      itemStore.dispatch({ type: 'update', id, patch: cancelledPatch(item) });
+      return;
+    }
 
-    setItems(prev => prev.map(i => i.id === id ? { ...i, status: 'processing', errorMessage: undefined } : i));
+    itemStore.dispatch({ type: 'update', id, patch: { status: 'processing', errorMessage: undefined, retry: undefined, progress: undefined } });
 
     try {
-      // Convert File to Base64
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve) => {
-        reader.onloadend = () => {
-          const b64 = (reader.result as string).replace(/^data:image\/[a-z]+;base64,/, "");
-          resolve(b64);
-        };
-        reader.readAsDataURL(item.originalFile);
-      });
-      const base64 = await base64Promise;
+      // Outpainting sends the padded frame instead of the original
+      const padded = mode === 'pad-outpaint' ? await renderLocalConversion(item.previewUrl, itemSettings) : null;
+
+      // Masks limit the edit to a region: the padding when outpainting, otherwise the painted area.
+      // A painted mask edits in place, so the source frame's ratio is requested instead of the target
+      const frame = padded ? { width: padded.canvas.width, height: padded.canvas.height } : item.metadata;
+      const sourceMask = fromPrompt || editBase ? undefined : item.mask;
+      const mask = padded ? createPaddingMask(frame, padded.imageRect) : sourceMask;
+      const references = itemSettings.references?.length ? toReferencePayloads(itemSettings.references) : undefined;
+
+      // Downscale and re-encode the source to fit the request size, with its real MIME type.
+      // The original file is kept for compositing; text-to-image items send no source
+      const rawSource = padded ? padded.canvas : editBase ? editBase.resultUrl : fromPrompt ? null : item.originalFile;
+      const upload = rawSource
+        ? await prepareUpload(rawSource, uploadSettings, sourceBudget(references, !!mask), padded ? item.originalFile.size : undefined)
+        : null;
+      const maskBase64 = mask && upload ? await maskToModelInput(mask, upload.size) : undefined;
+      const requestRatio = editBase
+        ? ratioFromSize(editBase.resultMetadata)
+        : sourceMask && !padded ? ratioFromSize(item.metadata) : itemSettings.aspectRatio;
 
       // Get API Key
       const apiKey = window.process?.env?.API_KEY || localStorage.getItem('gemini_api_key');
       if (!apiKey) throw new Error("API Key not found");
 
       // Generate with Pro model
-      const promptToUse = promptOverride || settings.prompt;
-      const result = await generateEditedImage(base64, promptToUse, settings.aspectRatio, apiKey);
+      const resolvedPrompt = resolvePrompt(itemSettings, presets);
+      const promptToUse = appendReviewNote(
+        editBase && item.pendingEdit
+          ? buildFollowUpPrompt(stepLineage(item, editBase.id), item.pendingEdit.prompt)
+          : fromPrompt
+            ? item.originPrompt
+            : padded ? [OUTPAINT_PROMPT, resolvedPrompt].filter(Boolean).join(' ') : resolvedPrompt,
+        item.reviewNote
+      );
+      const runGeneration = () => generateWithRetry(upload?.data ?? null, promptToUse, requestRatio, apiKey, {
+        signal,
+        mimeType: upload?.mimeType,
+        imageSize: itemSettings.imageSize,
+        maskBase64,
+        references,
+        onAttempt: (attempt) => {
+          if (attempt === 1) return;
+          const retry = itemStore.getItem(id)?.retry;
+          if (retry) itemStore.dispatch({ type: 'update', id, patch: { retry: { ...retry, attempt, nextRetryAt: undefined } } });
+        },
+        // Each request starts a fresh list of server stages
+        onProgress: progress => {
+          const earlier = progress.stage === 'received' ? [] : itemStore.getItem(id)?.progress ?? [];
+          itemStore.dispatch({ type: 'update', id, patch: { progress: [...earlier, progress] } });
+        },
+        onRetry: ({ attempt, delayMs, error }) => {
+          // A quota hit affects every job, so hold the rest of the queue back too
+          if (error.errorClass === 'quota') queue.throttle(delayMs);
+          itemStore.dispatch({
+            type: 'update', id, patch: {
+              retry: { attempt, maxAttempts: DEFAULT_RETRY_POLICY.maxAttempts, nextRetryAt: Date.now() + delayMs, lastError: error.message }
+            }
+          });
+        }
+      });
+
+      // Check the returned ratio; a mismatch is flagged, or regenerated once when the item asks for it
+      let rawResultUrl: string;
+      let generation: GenerationInfo;
+      let cost: number;
+      let discardedCost = 0;
+      for (let pass = 1; ; pass++) {
+        const { url, ...generationResult } = await runGeneration();
+        cost = estimateCost(generationResult.model, generationResult.usage);
+        const rawImg = await loadImage(url);
+        const actual = { width: rawImg.naturalWidth, height: rawImg.naturalHeight };
+        const mismatch = !sizeMatchesRatio(actual, requestRatio, MODEL_RATIO_TOLERANCE);
+
+        rawResultUrl = url;
+        generation = {
+          ...generationResult,
+          cost,
+          ratioMismatch: mismatch ? { expected: requestRatio, actual } : undefined,
+          upload: upload?.report,
+          discardedCost: discardedCost || undefined
+        };
+        if (!mismatch || !itemSettings.retryOnRatioMismatch || pass >= MAX_RATIO_PASSES) break;
 
-      // Convert to Desired Export Format
-      const convertedDataUrl = await convertImageFormat(result.url, settings.exportFormat);
+        // The discarded image was still billed
+        console.warn(`Ratio mismatch for ${id}: got ${formatSize(actual)}, expected ${requestRatio}. Regenerating.`);
+        await recordGenerationCost(id, generation, cost);
+        discardedCost += cost;
+      }
+
+      if (padded) {
+        rawResultUrl = await compositeOutpaint(rawResultUrl, padded);
+      } else if (sourceMask) {
+        rawResultUrl = await compositeMasked(rawResultUrl, item.previewUrl, sourceMask);
+      }
+
+      // Convert to Desired Export Format, resizing to the exact target when one is set
+      const encoderOptions = getEncoderOptions(itemSettings, itemSettings.exportFormat);
+      let converted: EncodedImage;
+      if (itemSettings.outputSize) {
+        const exact = await resizeToExactSize(rawResultUrl, itemSettings.outputSize, itemSettings.exportFormat, encoderOptions);
+        converted = exact;
+        generation.returnedSize = exact.sourceSize;
+      } else {
+        converted = await encodeImage(rawResultUrl, itemSettings.exportFormat, encoderOptions);
+      }
+      const convertedDataUrl = converted.url;
 
       // Get Result Metadata (size estimation based on base64 length)
       const sizeEst = Math.round((convertedDataUrl.length * 3) / 4);
@@ -231,70 +455,121 @@ const App: React.FC = () => {
       resultImg.src = convertedDataUrl;
       await new Promise(r => resultImg.onload = r);
 
-      setItems(prev => prev.map(i => i.id === id ? {
-        ...i,
-        status: 'success',
+      const step = createEditStep({
+        parentStepId: editBase?.id,
+        prompt: editBase && item.pendingEdit ? item.pendingEdit.prompt : promptToUse,
         resultUrl: convertedDataUrl,
         resultMetadata: {
           width: resultImg.naturalWidth,
           height: resultImg.naturalHeight,
           sizeBytes: sizeEst,
-          mimeType: settings.exportFormat
+          mimeType: converted.mimeType
+        },
+        generation
+      });
+      itemStore.dispatch({
+        type: 'update', id, patch: {
+          status: 'success',
+          retry: undefined,
+          progress: undefined,
+          pendingEdit: undefined,
+          reviewNote: undefined,
+          ...appendStep(itemStore.getItem(id) ?? item, step)
         }
-      } : i));
+      });
+
+      // The latest text-to-image result becomes the item's source, so later edits work on it
+      if (fromPrompt) {
+        const sourceFile = await resultToSourceFile(rawResultUrl, item.originalFile.name);
+        const metadata = await readImageMetadata(sourceFile);
+        URL.revokeObjectURL(item.previewUrl);
+        itemStore.dispatch({
+          type: 'update', id, patch: { originalFile: sourceFile, previewUrl: URL.createObjectURL(sourceFile), metadata, placeholder: undefined }
+        });
+      }
 
       // Update credit tracking
-      incrementCredits();
+      await recordGenerationCost(id, generation, cost);
 
     } catch (e: any) {
+      if (e.name === 'AbortError') {
+        itemStore.dispatch({ type: 'update', id, patch: { ...cancelledPatch(itemStore.getItem(id)), progress: undefined } });
+        return;
+      }
       if (e.message && e.message.includes("Requested entity was not found")) {
         setHasApiKey(false);
         handleConnect();
       }
-      setItems(prev => prev.map(i => i.id === id ? { ...i, status: 'error', errorMessage: e.message } : i));
+      itemStore.dispatch({ type: 'update', id, patch: { status: 'error', errorMessage: e.message, progress: undefined } });
     }
   };
+  processImageRef.current = processImage;
 
-  const processAll = async () => {
+  const enqueueItems = (jobs: GenerationJob[], { resume = false } = {}) => {
     if (!hasApiKey) {
       handleConnect();
       return;
     }
 
-    setGlobalLoading(true);
-    const idleItems = items.filter(i => i.status === 'idle' || i.status === 'error');
+    // Freeze the settings each item will run with, so later global changes don't leak in.
+    // Resumed items already carry the snapshot (overrides included) they were queued with
+    jobs.forEach(job => {
+      const item = itemStore.getItem(job.id);
+      if (!item) return;
+      const frozen = resume && item.settings ? item.settings : snapshotSettings(item, settings);
+      itemStore.dispatch({
+        type: 'update', id: job.id, patch: { status: 'queued', errorMessage: undefined, settings: frozen }
+      });
+    });
+    queue.enqueue(jobs);
+  };
 
-    // Process one by one to avoid rate limits
-    for (const item of idleItems) {
-      await processImage(item.id);
-    }
-    setGlobalLoading(false);
+  // Resume items that were interrupted by a reload once a key is available
+  useEffect(() => {
+    if (!workspaceRestored || !hasApiKey || resumeIdsRef.current.length === 0) return;
+    const ids = resumeIdsRef.current.filter(id => itemStore.getItem(id));
+    resumeIdsRef.current = [];
+    enqueueItems(ids.map(id => ({ id })), { resume: true });
+  }, [workspaceRestored, hasApiKey]);
+
+  const processAll = () => {
+    const idleItems = items.filter(i => i.status === 'idle' || i.status === 'error');
+    enqueueItems(idleItems.map(i => ({ id: i.id })));
   };
 
-  const downloadItem = (item: ImageItem) => {
+  const downloadItem = async (item: ImageItem) => {
     if (!item.resultUrl) return;
+    const url = URL.createObjectURL(await buildExportFile(item, exportOptions));
     const link = document.createElement('a');
-    link.href = item.resultUrl;
-    const ext = settings.exportFormat.split('/')[1];
-    link.download = `nano_${item.id}.${ext}`;
+    link.href = url;
+    // Same number the item gets in the ZIP; results left out of it fall back to their grid position
+    const index = exportItems.findIndex(i => i.id === item.id) + 1 || orderedItems.findIndex(i => i.id === item.id) + 1;
+    link.download = renderFileName(exportOptions.nameTemplate, { item, index, presets, date: new Date() });
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
   };
 
   const downloadAll = async () => {
     const zip = new JSZip();
-    const successfulItems = items.filter(i => i.status === 'success' && i.resultUrl);
-
-    if (successfulItems.length === 0) return;
-
-    successfulItems.forEach(item => {
-      if (item.resultUrl) {
-        const data = item.resultUrl.split(',')[1];
-        const ext = settings.exportFormat.split('/')[1];
-        zip.file(`nano_edit_${item.id}.${ext}`, data, { base64: true });
+    if (exportItems.length === 0) return;
+
+    // Numbered in display order so variants stay next to their source
+    const exportedAt = new Date();
+    const entries = planExport(exportItems, exportOptions, presets, exportedAt);
+    for (const entry of entries) {
+      const { item, path, responsive } = entry;
+      zip.file(path, await buildExportFile(item, exportOptions));
+      // Responsive copies keep the result's format and quality settings
+      const format = (item.resultMetadata?.mimeType ?? 'image/png') as ExportFormat;
+      for (const file of responsive) {
+        const scaled = await scaleToWidth(item.resultUrl!, file.width, format, getEncoderOptions(item.settings ?? settings, format));
+        zip.file(file.path, await buildExportFile(item, exportOptions, scaled.url));
       }
-    });
+      if (exportOptions.srcsetSnippet && exportOptions.responsiveWidths.length > 0) zip.file(srcsetSnippetPath(entry), buildSrcsetSnippet(entry));
+    }
+    zip.file('manifest.json', JSON.stringify(buildManifest(entries, exportOptions, presets, exportedAt), null, 2));
 
     const content = await zip.generateAsync({ type: "blob" });
     const link = document.createElement('a');
@@ -305,48 +580,185 @@ const App: React.FC = () => {
     document.body.removeChild(link);
   };
 
+  // --- EXPORT OPTIONS ---
+
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(loadExportOptions);
+  const [isExportOptionsOpen, setIsExportOptionsOpen] = useState(false);
+
+  const handleExportOptionsChange = (next: ExportOptions) => {
+    saveExportOptions(next);
+    setExportOptions(next);
+  };
+
+  // --- PER-ITEM SETTINGS ---
+
+  const [settingsEditorId, setSettingsEditorId] = useState<string | null>(null);
+
+  const updateOverrides = (id: string, overrides: SettingsOverrides) => {
+    const hasAny = Object.values(overrides).some(v => v !== undefined);
+    itemStore.dispatch({ type: 'update', id, patch: { overrides: hasAny ? overrides : undefined } });
+  };
+
+  // --- EDIT HISTORY ---
+
+  // Follow-ups start from the step currently shown, so refining an older step branches off it
+  const refineItem = (id: string, prompt: string) => {
+    const item = itemStore.getItem(id);
+    if (!item?.activeStepId || !prompt.trim()) return;
+    itemStore.dispatch({ type: 'update', id, patch: { pendingEdit: { prompt: prompt.trim(), fromStepId: item.activeStepId } } });
+    enqueueItems([{ id }]);
+  };
+
+  const revertToStep = (id: string, stepId: string) => {
+    const item = itemStore.getItem(id);
+    if (item) itemStore.dispatch({ type: 'update', id, patch: selectStep(item, stepId) });
+  };
+
+  // --- COMPARE ---
+
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const compareItem = compareId ? items.find(i => i.id === compareId && i.resultUrl) : undefined;
+
+  // The original, plus the step a follow-up edit started from
+  const compareSources = (item: ImageItem): CompareSource[] => {
+    const parent = findStep(item, findStep(item, item.activeStepId)?.parentStepId);
+    return [
+      { label: 'Original', url: item.previewUrl },
+      ...(parent ? [{ label: `Step ${stepNumber(item, parent.id)}`, url: parent.resultUrl }] : [])
+    ];
+  };
+
+  // --- REVIEW ---
+
+  // Ids are frozen when review starts; the overlay reads their current state from the store
+  const [reviewIds, setReviewIds] = useState<string[] | null>(null);
+  const reviewItems = reviewIds ? reviewIds.map(id => items.find(i => i.id === id)).filter((i): i is ImageItem => !!i) : [];
+  // Once anything has been reviewed only accepted results are exported, otherwise every finished one
+  const hasReviewed = items.some(i => i.status === 'approved' || i.status === 'rejected');
+  // In display order, so {index} numbers a file the same way in the ZIP and as a single download
+  const exportItems = groupVariants(items).filter(i => (hasReviewed ? i.status === 'approved' : i.status === 'success') && i.resultUrl);
+  const rejectedItems = items.filter(i => i.status === 'rejected');
+
+  const startReview = () => {
+    const ids = orderedItems.filter(isReviewable).map(i => i.id);
+    if (ids.length > 0) setReviewIds(ids);
+  };
+
+  const decideItem = (id: string, decision: ReviewDecision) => {
+    const item = itemStore.getItem(id);
+    if (item && hasResultStatus(item.status)) itemStore.dispatch({ type: 'update', id, patch: { status: decision } });
+  };
+
+  const regenerateRejected = () => enqueueItems(rejectedItems.map(i => ({ id: i.id })));
+
+  // --- LOCAL PREVIEWS ---
+
+  // Free previews of the local conversion, kept out of the item store so they are never persisted
+  const [localPreviews, setLocalPreviews] = useState<Record<string, string>>({});
+
+  const itemMode = (item: ImageItem) => getConversionMode(snapshotSettings(item, settings));
+
+  const togglePreview = async (item: ImageItem) => {
+    if (localPreviews[item.id]) {
+      setLocalPreviews(({ [item.id]: _, ...rest }) => rest);
+      return;
+    }
+    try {
+      const { canvas } = await renderLocalConversion(item.previewUrl, snapshotSettings(item, settings));
+      const url = canvasToDataUrl(canvas, 'image/jpeg');
+      setLocalPreviews(prev => ({ ...prev, [item.id]: url }));
+    } catch (e) {
+      console.warn("Preview failed", e);
+    }
+  };
+
+  // --- TEXT TO IMAGE ---
+
+  const [isTextToImageOpen, setIsTextToImageOpen] = useState(false);
+
+  const createFromPrompt = async (request: TextToImageRequest) => {
+    setIsTextToImageOpen(false);
+    const newItems = await createPromptItems(request);
+    itemStore.dispatch({ type: 'add', items: newItems });
+    if (request.generate) enqueueItems(newItems.map(i => ({ id: i.id })));
+  };
+
+  // --- REGION MASKS ---
+
+  const [maskEditorId, setMaskEditorId] = useState<string | null>(null);
+  const maskEditorItem = maskEditorId ? items.find(i => i.id === maskEditorId) : undefined;
+
   const removeItem = (id: string) => {
-    setItems(prev => prev.filter(i => i.id !== id));
-  };
-
-  const removeTextVariant = async (id: string) => {
-    const original = items.find(i => i.id === id);
-    if (!original) return;
-
-    // Create a new ID for the variant
-    const variantId = Math.random().toString(36).substr(2, 9);
-
-    // Create the variant item
-    const variantItem: ImageItem = {
-      ...original,
-      id: variantId,
-      status: 'idle', // Will be set to processing immediately by processImage
-      previewUrl: original.previewUrl, // Use same preview
-      originalFile: original.originalFile, // Use same file
-      metadata: original.metadata,
-      resultUrl: undefined,
-      resultMetadata: undefined,
-      errorMessage: undefined
-    };
+    queue.cancel(id);
+    itemStore.dispatch({ type: 'remove', id });
+    setLocalPreviews(({ [id]: _, ...rest }) => rest);
+  };
 
-    // Add to state immediately after the original
-    setItems(prev => {
-      const idx = prev.findIndex(i => i.id === original.id);
-      const arr = [...prev];
-      arr.splice(idx + 1, 0, variantItem);
-      return arr;
-    });
+  const clearAll = async () => {
+    if (items.length > 0 && !window.confirm("Clear the workspace? All images and results saved in this browser will be deleted.")) return;
+
+    queue.cancelAll();
+    itemStore.dispatch({ type: 'clear' });
+    setSettings(DEFAULT_SETTINGS);
+    try {
+      await clearWorkspace();
+    } catch (e) {
+      console.warn("Could not clear saved workspace", e);
+    }
+    refreshStorageEstimate();
+  };
+
+  // --- VARIANTS ---
+
+  const [variantSourceId, setVariantSourceId] = useState<string | null>(null);
+  const variantSource = variantSourceId ? items.find(i => i.id === variantSourceId) : undefined;
+  const orderedItems = groupVariants(items);
+
+  const createVariants = (id: string, request: VariantRequest) => {
+    const source = itemStore.getItem(id);
+    if (!source) return;
+
+    // Start from what the source itself would run with, card overrides included
+    const snapshots = buildVariantSettings(snapshotSettings(source, settings), request);
+    const variants = createVariantItems(source, snapshots);
+
+    // Insert after the source's last existing variant; the queued jobs read them from the store
+    const rootId = source.parentId ?? source.id;
+    const lastInGroup = [...itemStore.getState()].reverse().find(i => i.id === rootId || i.parentId === rootId);
+    itemStore.dispatch({ type: 'add', items: variants, afterId: lastInGroup?.id ?? source.id });
+    enqueueItems(variants.map(v => ({ id: v.id })));
+  };
+
+  const removeTextVariant = (id: string) => {
+    createVariants(id, { aspectRatios: [], prompts: [{ presetId: REMOVE_TEXT_PRESET_ID }] });
+  };
+
+  // --- PRESETS ---
+
+  const applyPreset = (preset: PromptPreset | undefined) => {
+    // Keep values for variables the new preset shares with the old one
+    const variables = preset ? extractVariables(preset.prompt) : [];
+    const kept = Object.fromEntries(variables.map(v => [v, settings.presetVariables?.[v] ?? '']));
+    setSettings({ ...settings, presetId: preset?.id, presetVariables: preset ? kept : undefined });
+    setIsPresetLibraryOpen(false);
+  };
 
-    // Trigger processing with the specific prompt
-    // We need to wait for state update, but since we have the object, we can just call processImage logic
-    // However, processImage relies on state for 'items'. 
-    // Let's use a small timeout to ensure state is updated or pass the item directly if we refactored.
-    // Better: processImage finds item by ID. So we just need to wait for the set state to reflect.
-    // React state updates are batched. We can just call it, but it might not find the item yet if we don't wait.
-    // Actually, let's just use setTimeout(..., 0) to push it to next tick.
-    setTimeout(() => {
-      processImage(variantId, REMOVE_TEXT_PROMPT);
-    }, 0);
+  const handleSavePreset = async (preset: PromptPreset) => {
+    setPresets(prev => [...prev, preset]);
+    await saveUserPreset(preset).catch(e => console.warn("Could not save preset", e));
+  };
+
+  const handleDeletePreset = async (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+    if (settings.presetId === id) applyPreset(undefined);
+    await deleteUserPreset(id).catch(e => console.warn("Could not delete preset", e));
+  };
+
+  const handleImportPresets = async (imported: PromptPreset[]) => {
+    setPresets(prev => [...prev, ...imported]);
+    for (const preset of imported) {
+      await saveUserPreset(preset).catch(e => console.warn("Could not save preset", e));
+    }
   };
 
   // --- RENDER ---
@@ -361,6 +773,66 @@ const App: React.FC = () => {
           onSave={handleSaveManualKey}
           canClose={hasApiKey}
         />
+        <PresetLibraryModal
+          isOpen={isPresetLibraryOpen}
+          presets={presets}
+          currentPrompt={settings.prompt}
+          onClose={() => setIsPresetLibraryOpen(false)}
+          onApply={applyPreset}
+          onSave={handleSavePreset}
+          onDelete={handleDeletePreset}
+          onImport={handleImportPresets}
+        />
+        {maskEditorItem && (
+          <MaskEditor
+            isOpen
+            imageUrl={maskEditorItem.previewUrl}
+            initialMask={maskEditorItem.mask}
+            onClose={() => setMaskEditorId(null)}
+            onSave={(mask) => {
+              itemStore.dispatch({ type: 'update', id: maskEditorItem.id, patch: { mask } });
+              setMaskEditorId(null);
+            }}
+          />
+        )}
+        {compareItem?.resultUrl && (
+          <CompareViewer
+            title={compareItem.originalFile.name}
+            befores={compareSources(compareItem)}
+            afterUrl={compareItem.resultUrl}
+            onClose={() => setCompareId(null)}
+          />
+        )}
+        {reviewIds && (
+          <ReviewMode
+            items={reviewItems}
+            paused={!!compareItem}
+            describe={item => describeSettings(snapshotSettings(item, settings), presets)}
+            onDecide={decideItem}
+            onNoteChange={(id, note) => itemStore.dispatch({ type: 'update', id, patch: { reviewNote: note || undefined } })}
+            onRegenerate={id => enqueueItems([{ id }])}
+            onCompare={setCompareId}
+            onClose={() => setReviewIds(null)}
+          />
+        )}
+        <TextToImageDialog
+          isOpen={isTextToImageOpen}
+          defaultAspectRatio={settings.aspectRatio}
+          costPerImage={DEFAULT_PRICING.flatPerImage}
+          onClose={() => setIsTextToImageOpen(false)}
+          onCreate={createFromPrompt}
+        />
+        <VariantDialog
+          isOpen={!!variantSource}
+          sourceName={variantSource?.originalFile.name ?? ''}
+          presets={presets}
+          costPerVariant={DEFAULT_PRICING.flatPerImage}
+          onClose={() => setVariantSourceId(null)}
+          onCreate={(request) => {
+            if (variantSourceId) createVariants(variantSourceId, request);
+            setVariantSourceId(null);
+          }}
+        />
       </div>
 
       <main className="flex-grow max-w-7xl mx-auto w-full p-4 md:p-6 flex flex-col gap-8">
@@ -395,31 +867,94 @@ const App: React.FC = () => {
           <div className="md:col-span-5 w-full space-y-2">
             <div className="flex justify-between items-center">
               <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Generation Prompt</label>
-              <span className="text-[10px] text-slate-400 bg-slate-800/70 px-2.5 py-1 rounded-full border border-slate-700/50">Optional</span>
+              <div className="flex items-center gap-1.5">
+                <select
+                  value={settings.presetId ?? ''}
+                  onChange={e => applyPreset(presets.find(p => p.id === e.target.value))}
+                  className="text-[10px] text-slate-300 bg-slate-800/70 px-2 py-1 rounded-full border border-slate-700/50 focus:outline-none cursor-pointer max-w-[9rem]"
+                >
+                  <option value="">No preset</option>
+                  {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <button
+                  onClick={() => setIsPresetLibraryOpen(true)}
+                  className="text-[10px] text-slate-400 hover:text-amber-400 bg-slate-800/70 px-2.5 py-1 rounded-full border border-slate-700/50 transition-colors"
+                >
+                  Library
+                </button>
+              </div>
             </div>
             <input
               type="text"
-              placeholder="Describe the transformation you want..."
+              placeholder={activePreset ? `Extra instructions for "${activePreset.name}" (optional)` : "Describe the transformation you want..."}
               value={settings.prompt}
               onChange={e => setSettings({ ...settings, prompt: e.target.value })}
               className="w-full bg-slate-950/70 border border-slate-700/50 rounded-xl px-4 py-3.5 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 focus:border-amber-500/60 placeholder:text-slate-600 transition-all shadow-inner"
             />
+            {activePreset && Object.keys(settings.presetVariables ?? {}).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.keys(settings.presetVariables ?? {}).map(name => (
+                  <input
+                    key={name}
+                    type="text"
+                    placeholder={name}
+                    value={settings.presetVariables?.[name] ?? ''}
+                    onChange={e => setSettings({ ...settings, presetVariables: { ...settings.presetVariables, [name]: e.target.value } })}
+                    className={`flex-1 min-w-[8rem] bg-slate-950/70 border rounded-lg px-3 py-2 text-xs text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 placeholder:text-slate-500 ${missingVariables.includes(name) ? 'border-red-500/50' : 'border-slate-700/50'}`}
+                  />
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Aspect Ratio */}
           <div className="md:col-span-2 w-full space-y-2">
             <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Aspect Ratio</label>
-            <div className="relative">
+            <AspectRatioPicker
+              aspectRatio={settings.aspectRatio}
+              outputSize={settings.outputSize}
+              onChange={value => setSettings({ ...settings, ...value })}
+            />
+            <div className="flex items-center gap-2">
               <select
-                value={settings.aspectRatio}
-                onChange={e => setSettings({ ...settings, aspectRatio: e.target.value as AspectRatio })}
-                className="w-full bg-slate-950/70 border border-slate-700/50 rounded-xl px-3 py-3.5 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 appearance-none cursor-pointer shadow-inner transition-all hover:border-slate-600"
+                value={settings.imageSize ?? ''}
+                onChange={e => setSettings({ ...settings, imageSize: (e.target.value || undefined) as ImageSize | undefined })}
+                title="Native resolution, used by models that support it"
+                className="bg-slate-950/70 border border-slate-700/50 rounded-lg px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 cursor-pointer"
               >
-                {Object.values(AspectRatio).map(r => <option key={r} value={r}>{r}</option>)}
+                <option value="">Auto size</option>
+                <option value="1K">1K</option>
+                <option value="2K">2K</option>
+                <option value="4K">4K</option>
               </select>
-              <div className="absolute right-3 top-3.5 pointer-events-none text-slate-400">
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
-              </div>
+              <label className="flex items-center gap-1.5 text-[10px] text-slate-400 cursor-pointer" title="Regenerate once if the model ignores the requested ratio">
+                <input
+                  type="checkbox"
+                  checked={!!settings.retryOnRatioMismatch}
+                  onChange={e => setSettings({ ...settings, retryOnRatioMismatch: e.target.checked || undefined })}
+                  className="accent-amber-500"
+                />
+                Retry if ratio is off
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={getConversionMode(settings)}
+                onChange={e => setSettings({ ...settings, conversionMode: e.target.value as ConversionMode })}
+                title="How images are brought to the new ratio"
+                className="flex-1 min-w-0 bg-slate-950/70 border border-slate-700/50 rounded-lg px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 cursor-pointer"
+              >
+                {CONVERSION_MODES.map(m => <option key={m.id} value={m.id}>{m.label}{m.paid ? '' : ' (free)'}</option>)}
+              </select>
+              {(settings.conversionMode === 'pad' || settings.conversionMode === 'pad-outpaint') && (
+                <input
+                  type="color"
+                  value={settings.padColor || DEFAULT_PAD_COLOR}
+                  onChange={e => setSettings({ ...settings, padColor: e.target.value })}
+                  title="Padding colour"
+                  className="w-7 h-7 bg-transparent border border-slate-700/50 rounded cursor-pointer"
+                />
+              )}
             </div>
           </div>
 
@@ -432,43 +967,81 @@ const App: React.FC = () => {
                 onChange={e => setSettings({ ...settings, exportFormat: e.target.value as ExportFormat })}
                 className="w-full bg-slate-950/70 border border-slate-700/50 rounded-xl px-3 py-3.5 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 appearance-none cursor-pointer shadow-inner transition-all hover:border-slate-600"
               >
-                <option value="image/jpeg">JPEG</option>
-                <option value="image/png">PNG</option>
-                <option value="image/webp">WebP</option>
+                {EXPORT_FORMATS.map(f => (
+                  <option key={f.id} value={f.id} disabled={!isFormatSupported(f.id)}>
+                    {f.label}{isFormatSupported(f.id) ? '' : ' (not supported by this browser)'}
+                  </option>
+                ))}
               </select>
               <div className="absolute right-3 top-3.5 pointer-events-none text-slate-400">
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
               </div>
             </div>
-          </div>
-
-          {/* Credit Tracker */}
-          <div className="md:col-span-3 w-full flex items-center justify-end gap-3 pb-2 pl-4 border-l border-amber-900/30">
-            <div className="flex flex-col items-end space-y-0.5">
-              <div className="flex items-center gap-2">
-                <span className="text-xs text-slate-400">Session Usage</span>
-                <span className="text-sm font-bold text-amber-400">{creditInfo.sessionGenerations} images</span>
+            {getFormatInfo(settings.exportFormat).lossy && (
+              <div className="flex items-center gap-2" title={`${getFormatInfo(settings.exportFormat).label} quality, remembered per format`}>
+                <input
+                  type="range"
+                  min={0.5}
+                  max={1}
+                  step={0.01}
+                  value={exportEncoder.quality}
+                  disabled={exportEncoder.lossless}
+                  onChange={e => handleEncoderChange({ quality: Number(e.target.value) })}
+                  className="flex-1 min-w-0 accent-amber-500 disabled:opacity-40"
+                />
+                <span className="w-14 text-right text-[11px] font-mono text-slate-400">
+                  {exportEncoder.lossless ? 'lossless' : `Q${Math.round(exportEncoder.quality * 100)}`}
+                </span>
+                {getFormatInfo(settings.exportFormat).losslessOption && (
+                  <label className="flex items-center gap-1 text-[11px] text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!exportEncoder.lossless}
+                      onChange={e => handleEncoderChange({ lossless: e.target.checked })}
+                      className="accent-amber-500"
+                    />
+                    Lossless
+                  </label>
+                )}
               </div>
-              <div className="flex items-center gap-2">
-                <span className="text-xs text-slate-500">Est. Cost</span>
-                <span className="text-sm font-mono font-bold text-amber-500">${creditInfo.estimatedSessionCost.toFixed(2)}</span>
-              </div>
-              <a
-                href="https://console.cloud.google.com/billing"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-[10px] text-slate-600 hover:text-amber-400 transition-colors underline"
+            )}
+            <div className="flex items-center gap-2" title="Sources are downscaled and re-encoded without metadata before upload; the original is kept">
+              <select
+                value={uploadSettings.maxLongEdge}
+                onChange={e => handleUploadSettingsChange({ ...uploadSettings, maxLongEdge: Number(e.target.value) })}
+                className="flex-1 min-w-0 bg-slate-950/70 border border-slate-700/50 rounded-lg px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 cursor-pointer"
               >
-                View Billing →
-              </a>
-            </div>
-            <div className="flex flex-col items-center justify-center bg-gradient-to-br from-amber-500/20 to-amber-600/10 rounded-xl px-3 py-2 border border-amber-500/30">
-              <svg className="w-5 h-5 text-amber-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-              <span className="text-[9px] font-bold text-amber-400 mt-0.5">PRO 2K</span>
+                {UPLOAD_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>Upload ≤ {edge}px</option>)}
+              </select>
+              <select
+                value={uploadSettings.quality}
+                onChange={e => handleUploadSettingsChange({ ...uploadSettings, quality: Number(e.target.value) })}
+                className="bg-slate-950/70 border border-slate-700/50 rounded-lg px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 cursor-pointer"
+              >
+                {UPLOAD_QUALITY_OPTIONS.map(q => <option key={q} value={q}>Q{Math.round(q * 100)}</option>)}
+              </select>
             </div>
           </div>
+
+          {/* Credit Tracker */}
+          <CreditTracker
+            creditInfo={creditInfo}
+            budget={budget}
+            budgetExceeded={budgetExceeded}
+            onBudgetChange={handleBudgetChange}
+          />
+        </div>
+
+        {/* BATCH REFERENCES */}
+        <div className="bg-slate-900/40 border border-slate-700/50 rounded-3xl p-6 space-y-3">
+          <div className="flex items-baseline gap-3">
+            <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Batch References</label>
+            <span className="text-[10px] text-slate-500">Style frames, product cutouts or logos sent with every image, in this order. Mention them by label in the prompt.</span>
+          </div>
+          <ReferenceList
+            references={settings.references ?? []}
+            onChange={references => setSettings({ ...settings, references })}
+          />
         </div>
 
         {/* CONTROLS & DROPZONE */}
@@ -491,10 +1064,10 @@ const App: React.FC = () => {
               <div>
                 <h3 className="text-2xl font-bold text-white group-hover:text-amber-400 transition-colors tracking-tight">Upload Source Images</h3>
                 <p className="text-sm text-slate-400 mt-2">Drag & drop or click to select files</p>
-                <p className="text-xs text-slate-600 mt-1">Supports JPG, PNG, WebP</p>
+                <p className="text-xs text-slate-600 mt-1">JPG, PNG, WebP · HEIC, AVIF, TIFF, BMP, GIF, SVG and raw previews are converted</p>
               </div>
             </div>
-            <input ref={fileInputRef} type="file" multiple className="hidden" accept="image/*" onChange={e => addFiles(e.target.files)} />
+            <input ref={fileInputRef} type="file" multiple className="hidden" accept={ACCEPTED_FILE_TYPES} onChange={e => addFiles(e.target.files)} />
           </div>
 
           {/* Bulk Actions Panel */}
@@ -506,59 +1079,285 @@ const App: React.FC = () => {
               </div>
 
               <div className="flex-grow flex flex-col justify-center gap-3">
+                <Button onClick={() => setIsTextToImageOpen(true)} variant="secondary" className="w-full font-semibold">
+                  Generate from Prompt…
+                </Button>
                 <Button
                   onClick={processAll}
-                  disabled={globalLoading || items.length === 0}
+                  disabled={queueActive || items.length === 0 || budgetExceeded || missingVariables.length > 0}
+                  title={budgetExceeded ? 'Budget cap reached' : missingVariables.length > 0 ? `Fill in: ${missingVariables.join(', ')}` : undefined}
                   variant="primary"
-                  isLoading={globalLoading}
+                  isLoading={queueActive && !queueState.paused}
                   className="w-full shadow-amber-500/30 shadow-lg bg-gradient-to-r from-amber-600 to-amber-500 hover:from-amber-500 hover:to-amber-400 font-semibold"
                 >
                   Process All Images
                 </Button>
+                {queueActive && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => queueState.paused ? queue.resume() : queue.pause()}
+                      className="flex-1 font-semibold"
+                    >
+                      {queueState.paused ? 'Resume' : 'Pause'}
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => queue.cancelAll()} className="flex-1 font-semibold">
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+                {throttleSecondsLeft > 0 && (
+                  <div className="text-[10px] font-mono text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg px-2 py-1.5 text-center">
+                    Rate limited · resuming in {throttleSecondsLeft}s
+                  </div>
+                )}
+                <div className="flex justify-between items-center text-[10px] font-mono text-slate-500">
+                  <span>{queueState.running.length} running · {queueState.pending.length} queued</span>
+                  <label className="flex items-center gap-1.5">
+                    Parallel
+                    <select
+                      value={queueState.concurrency}
+                      onChange={e => queue.setConcurrency(Number(e.target.value))}
+                      className="bg-slate-950/70 border border-slate-700/50 rounded-md px-1.5 py-0.5 text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+                    >
+                      {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={startReview} disabled={!items.some(isReviewable)} variant="secondary" className="w-full font-semibold" title="Keyboard review: accept, reject, regenerate">
+                    Review Results
+                  </Button>
+                  {rejectedItems.length > 0 && (
+                    <Button onClick={regenerateRejected} disabled={missingVariables.length > 0} variant="secondary" className="w-full font-semibold">
+                      Regenerate Rejected ({rejectedItems.length})
+                    </Button>
+                  )}
+                </div>
                 <Button
                   onClick={downloadAll}
-                  disabled={items.filter(i => i.status === 'success').length === 0}
+                  disabled={exportItems.length === 0}
                   variant="secondary"
                   className="w-full font-semibold"
+                  title={hasReviewed && exportItems.length === 0 ? 'Accept results in review to export them' : undefined}
                 >
-                  Download as ZIP
+                  {hasReviewed ? 'Download Approved as ZIP' : 'Download as ZIP'} ({exportItems.length})
                 </Button>
+                <button
+                  onClick={() => setIsExportOptionsOpen(!isExportOptionsOpen)}
+                  className="text-[10px] font-mono text-slate-500 hover:text-amber-400 transition-colors text-left"
+                >
+                  {isExportOptionsOpen ? '▾' : '▸'} File names & folders
+                </button>
+                {isExportOptionsOpen && (
+                  <div className="space-y-2 bg-slate-950/50 border border-slate-700/50 rounded-xl p-3">
+                    <input
+                      type="text"
+                      value={exportOptions.nameTemplate}
+                      onChange={e => handleExportOptionsChange({ ...exportOptions, nameTemplate: e.target.value })}
+                      placeholder="{original}_{ratio}_{index}"
+                      className="w-full bg-slate-950/70 border border-slate-700/50 rounded-md px-2 py-1 text-xs font-mono text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+                    />
+                    <div className="flex flex-wrap gap-1">
+                      {NAME_TOKENS.map(t => (
+                        <button
+                          key={t.token}
+                          title={t.description}
+                          onClick={() => handleExportOptionsChange({ ...exportOptions, nameTemplate: exportOptions.nameTemplate + t.token })}
+                          className="text-[10px] font-mono text-slate-400 bg-slate-800/70 hover:text-amber-400 px-1.5 py-0.5 rounded"
+                        >
+                          {t.token}
+                        </button>
+                      ))}
+                    </div>
+                    <select
+                      value={exportOptions.groupBy}
+                      onChange={e => handleExportOptionsChange({ ...exportOptions, groupBy: e.target.value as ExportGrouping })}
+                      className="w-full bg-slate-950/70 border border-slate-700/50 rounded-md px-2 py-1 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+                    >
+                      {EXPORT_GROUPINGS.map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+                    </select>
+                    {orderedItems.some(isReviewable) && (
+                      <p className="text-[10px] font-mono text-slate-500 truncate" title="Example path for the first result">
+                        e.g. {planExport([orderedItems.find(isReviewable)!], exportOptions, presets)[0].path}
+                      </p>
+                    )}
+                    <div className="pt-1 space-y-1.5">
+                      <span className="block text-[10px] text-slate-500 font-bold uppercase tracking-wider">Metadata from original</span>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {EXIF_GROUPS.map(g => (
+                          <label key={g.id} className="flex items-center gap-1.5 text-[11px] text-slate-300 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={exportOptions.exifGroups.includes(g.id)}
+                              onChange={e => handleExportOptionsChange({
+                                ...exportOptions,
+                                exifGroups: e.target.checked ? [...exportOptions.exifGroups, g.id] : exportOptions.exifGroups.filter(id => id !== g.id)
+                              })}
+                              className="accent-amber-500"
+                            />
+                            {g.label}
+                          </label>
+                        ))}
+                        <label className="flex items-center gap-1.5 text-[11px] text-slate-300 cursor-pointer" title="Results are rendered in sRGB; only embed the source profile if your pipeline relies on it">
+                          <input
+                            type="checkbox"
+                            checked={exportOptions.keepColorProfile}
+                            onChange={e => handleExportOptionsChange({ ...exportOptions, keepColorProfile: e.target.checked })}
+                            className="accent-amber-500"
+                          />
+                          Colour profile (ICC)
+                        </label>
+                      </div>
+                      <label className="flex items-center gap-1.5 text-[11px] text-slate-300 cursor-pointer" title="Model, prompt, tool version and time as XMP (PNG text chunks too), plus the IPTC AI source type">
+                        <input
+                          type="checkbox"
+                          checked={exportOptions.provenance}
+                          onChange={e => handleExportOptionsChange({ ...exportOptions, provenance: e.target.checked })}
+                          className="accent-amber-500"
+                        />
+                        Tag files with AI provenance
+                      </label>
+                    </div>
+                    <div className="pt-1 space-y-1.5">
+                      <span className="block text-[10px] text-slate-500 font-bold uppercase tracking-wider">Responsive set</span>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {RESPONSIVE_WIDTHS.map(width => (
+                          <label key={width} className="flex items-center gap-1.5 text-[11px] font-mono text-slate-300 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={exportOptions.responsiveWidths.includes(width)}
+                              onChange={e => handleExportOptionsChange({
+                                ...exportOptions,
+                                responsiveWidths: e.target.checked ? [...exportOptions.responsiveWidths, width] : exportOptions.responsiveWidths.filter(w => w !== width)
+                              })}
+                              className="accent-amber-500"
+                            />
+                            {width}w
+                          </label>
+                        ))}
+                        <label className="flex items-center gap-1.5 text-[11px] text-slate-300 cursor-pointer" title="An <img srcset> snippet per image, next to its files">
+                          <input
+                            type="checkbox"
+                            checked={exportOptions.srcsetSnippet}
+                            disabled={exportOptions.responsiveWidths.length === 0}
+                            onChange={e => handleExportOptionsChange({ ...exportOptions, srcsetSnippet: e.target.checked })}
+                            className="accent-amber-500"
+                          />
+                          srcset HTML
+                        </label>
+                      </div>
+                      <p className="text-[10px] text-slate-600">Widths at or above a result's own width are skipped; the full-size file is always included.</p>
+                    </div>
+                    <p className="text-[10px] text-slate-600">The ZIP also contains manifest.json with each file's source, prompt, model, settings and cost.</p>
+                  </div>
+                )}
               </div>
 
-              <div className="pt-4 border-t border-slate-700/50 text-center">
-                <button onClick={() => setItems([])} className="text-xs text-slate-500 hover:text-red-400 transition-colors font-medium">
-                  Clear All Items
+              <div className="pt-4 border-t border-slate-700/50 flex justify-between items-center">
+                <span className="text-[10px] font-mono text-slate-600" title="Browser storage used by the saved workspace">
+                  {storageEstimate ? `Storage ${formatBytes(storageEstimate.usage, 1)} / ${formatBytes(storageEstimate.quota, 0)}` : 'Storage n/a'}
+                </span>
+                <button onClick={clearAll} className="text-xs text-slate-500 hover:text-red-400 transition-colors font-medium">
+                  Clear Workspace
                 </button>
               </div>
             </div>
           </div>
         </div>
 
+        {/* IMPORT ERRORS */}
+        {ingestErrors.length > 0 && (
+          <div className="bg-red-900/20 border border-red-500/40 rounded-2xl p-4 flex gap-4 items-start animate-fade-in">
+            <div className="flex-grow space-y-1">
+              <p className="text-sm font-semibold text-red-300">
+                {ingestErrors.length} file{ingestErrors.length === 1 ? '' : 's'} could not be imported
+              </p>
+              {ingestErrors.map(error => <p key={error} className="text-xs text-red-200/80 font-mono">{error}</p>)}
+            </div>
+            <button onClick={() => setIngestErrors([])} className="text-red-300/70 hover:text-white transition-colors">
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        )}
+
         {/* IMAGE GRID */}
         {items.length > 0 && (
           <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 animate-fade-in">
-            {items.map(item => (
-              <div key={item.id} className="bg-slate-900 border border-slate-800 rounded-3xl overflow-hidden shadow-2xl flex flex-col hover:border-slate-700 transition-all group">
+            {orderedItems.map(item => (
+              <div key={item.id} className={`bg-slate-900 border rounded-3xl overflow-hidden shadow-2xl flex flex-col transition-all group ${item.parentId ? 'border-amber-900/60 hover:border-amber-700/60 border-l-4 border-l-amber-600/60' : 'border-slate-800 hover:border-slate-700'}`}>
 
                 {/* Card Header: Status & Actions */}
                 <div className="p-4 border-b border-slate-800 bg-slate-950/50 flex justify-between items-center">
                   <div className="flex items-center gap-2">
                     <div className={`w-2.5 h-2.5 rounded-full ${item.status === 'success' ? 'bg-green-500 shadow-[0_0_10px_rgba(34,197,94,0.5)]' :
+                      item.status === 'approved' ? 'bg-emerald-400 ring-2 ring-emerald-400/40' :
+                      item.status === 'rejected' ? 'bg-rose-500 ring-2 ring-rose-500/40' :
                       item.status === 'error' ? 'bg-red-500' :
                         item.status === 'processing' ? 'bg-banana-500 animate-pulse' :
-                          'bg-slate-600'
+                          item.status === 'queued' ? 'bg-sky-500' :
+                            'bg-slate-600'
                       }`}></div>
                     <span className="text-xs font-mono text-slate-400 font-bold uppercase tracking-wider">{item.status}</span>
+                    {item.parentId && item.settings && (
+                      <span className="text-[10px] text-amber-400/90 bg-amber-500/10 border border-amber-500/30 px-2 py-0.5 rounded-full truncate max-w-[10rem]" title={`Variant: ${describeSettings(item.settings, presets)}`}>
+                        ↳ {describeSettings(item.settings, presets)}
+                      </span>
+                    )}
+                    {!item.parentId && items.some(i => i.parentId === item.id) && (
+                      <span className="text-[10px] text-slate-500 font-mono">
+                        {items.filter(i => i.parentId === item.id).length} variants
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    {itemMode(item) !== 'ai' && !item.placeholder && (
+                      <button
+                        onClick={() => togglePreview(item)}
+                        title="Free local preview"
+                        className={`transition-colors p-1.5 rounded-lg hover:bg-slate-800 ${localPreviews[item.id] ? 'text-amber-400 bg-amber-500/10' : 'text-slate-600 hover:text-amber-400 bg-slate-800/50'}`}
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setMaskEditorId(item.id)}
+                      disabled={item.status === 'processing' || item.status === 'queued' || item.placeholder}
+                      title={item.mask ? 'Edit region mask' : 'Limit the edit to a painted region'}
+                      className={`transition-colors p-1.5 rounded-lg hover:bg-slate-800 disabled:opacity-40 ${item.mask ? 'text-amber-400 bg-amber-500/10' : 'text-slate-600 hover:text-amber-400 bg-slate-800/50'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" /></svg>
+                    </button>
+                    <button
+                      onClick={() => setSettingsEditorId(settingsEditorId === item.id ? null : item.id)}
+                      title="Per-image settings"
+                      className={`transition-colors p-1.5 rounded-lg hover:bg-slate-800 ${item.overrides || item.references ? 'text-amber-400 bg-amber-500/10' : 'text-slate-600 hover:text-amber-400 bg-slate-800/50'}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+                    </button>
+                    {(item.status === 'queued' || item.status === 'processing') && (
+                      <button onClick={() => queue.cancel(item.id)} className="text-[10px] font-semibold text-slate-500 hover:text-red-400 transition-colors bg-slate-800/50 px-2 py-1.5 rounded-lg hover:bg-slate-800">
+                        Cancel
+                      </button>
+                    )}
+                      <button onClick={() => removeItem(item.id)} className="text-slate-600 hover:text-red-500 transition-colors bg-slate-800/50 p-1.5 rounded-lg hover:bg-slate-800">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
                   </div>
-                  <button onClick={() => removeItem(item.id)} className="text-slate-600 hover:text-red-500 transition-colors bg-slate-800/50 p-1.5 rounded-lg hover:bg-slate-800">
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                  </button>
                 </div>
 
                 {/* Content Area */}
                 <div className="relative aspect-[4/3] bg-slate-950">
-                  {/* Comparison View if Success */}
-                  {item.status === 'success' && item.resultUrl ? (
+                  {/* Local Preview */}
+                  {localPreviews[item.id] ? (
+                    <div className="relative w-full h-full flex items-center justify-center">
+                      <div className="absolute top-3 left-3 bg-black/70 backdrop-blur px-2 py-1 rounded-md text-[10px] text-slate-300 z-10 font-medium">
+                        Preview · {CONVERSION_MODES.find(m => m.id === itemMode(item))?.label} · Free
+                      </div>
+                      <img src={localPreviews[item.id]} className="max-w-full max-h-full object-contain" alt="Preview" />
+                    </div>
+                  ) : hasResultStatus(item.status) && item.resultUrl ? (
                     <div className="relative w-full h-full flex">
                       <div className="w-1/2 h-full border-r border-slate-800 relative overflow-hidden group/img">
                         <div className="absolute top-3 left-3 bg-black/70 backdrop-blur px-2 py-1 rounded-md text-[10px] text-slate-300 z-10 font-medium">Original</div>
@@ -566,16 +1365,50 @@ const App: React.FC = () => {
                       </div>
                       <div className="w-1/2 h-full relative overflow-hidden group/img">
                         <div className="absolute top-3 right-3 bg-banana-500/90 backdrop-blur px-2 py-1 rounded-md text-[10px] text-slate-900 font-bold z-10 shadow-lg">New</div>
+                        {item.generation ? (
+                          <ModelBadge generation={item.generation} className="absolute bottom-3 right-3 z-10" />
+                        ) : (
+                          <div className="absolute bottom-3 right-3 z-10 bg-slate-700/90 backdrop-blur px-2 py-1 rounded-md text-[10px] text-white font-bold shadow-lg">Local · $0</div>
+                        )}
+                        {item.generation?.ratioMismatch && (
+                          <div
+                            title={`Requested ${item.generation.ratioMismatch.expected}, model returned ${formatSize(item.generation.ratioMismatch.actual)}`}
+                            className="absolute bottom-3 left-3 z-10 bg-red-600/90 backdrop-blur px-2 py-1 rounded-md text-[10px] text-white font-bold shadow-lg"
+                          >
+                            Ratio off
+                          </div>
+                        )}
                         <img src={item.resultUrl} className="w-full h-full object-cover" alt="Result" />
+                        <button
+                          onClick={() => setCompareId(item.id)}
+                          title="Compare full screen"
+                          className="absolute top-3 left-3 z-10 bg-black/70 backdrop-blur p-1.5 rounded-md text-slate-300 hover:text-amber-400 opacity-0 group-hover/img:opacity-100 transition-opacity"
+                        >
+                          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" /></svg>
+                        </button>
                       </div>
                     </div>
                   ) : (
                     <div className="w-full h-full relative">
-                      <img src={item.previewUrl} className={`w-full h-full object-cover transition-opacity duration-500 ${item.status === 'processing' ? 'opacity-30 blur-sm' : 'opacity-100'}`} alt="Preview" />
+                      <img src={findStep(item, item.pendingEdit?.fromStepId)?.resultUrl ?? item.previewUrl} className={`w-full h-full object-cover transition-opacity duration-500 ${item.status === 'processing' ? 'opacity-30 blur-sm' : 'opacity-100'}`} alt="Preview" />
+                      {item.placeholder && item.status !== 'processing' && (
+                        <div className="absolute inset-0 flex items-center justify-center p-6">
+                          <p className="text-xs text-slate-400 italic text-center line-clamp-4">“{item.originPrompt}”</p>
+                        </div>
+                      )}
                       {item.status === 'processing' && (
                         <div className="absolute inset-0 flex flex-col items-center justify-center">
                           <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin shadow-lg"></div>
-                          <span className="text-xs text-amber-400 mt-3 font-mono animate-pulse font-medium">Generating...</span>
+                          <span className="text-xs text-amber-400 mt-3 font-mono animate-pulse font-medium">
+                            {item.retry?.nextRetryAt ? 'Waiting to retry...' : 'Generating...'}
+                          </span>
+                          {item.progress?.length && !item.retry?.nextRetryAt ? <div className="mt-2"><StageProgress events={item.progress} /></div> : null}
+                          {item.retry && <div className="mt-2"><RetryStatus retry={item.retry} /></div>}
+                        </div>
+                      )}
+                      {item.status === 'queued' && (
+                        <div className="absolute top-3 left-3 bg-sky-600/90 backdrop-blur px-2 py-1 rounded-md text-[10px] text-white font-bold shadow-lg">
+                          Queued #{queueState.pending.indexOf(item.id) + 1}
                         </div>
                       )}
                       {item.status === 'error' && (
@@ -583,6 +1416,9 @@ const App: React.FC = () => {
                           <div className="space-y-2">
                             <svg className="w-8 h-8 text-red-300 mx-auto" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                             <p className="text-xs text-red-100 font-medium">{item.errorMessage}</p>
+                            {item.retry && (
+                              <p className="text-[10px] text-red-200/70 font-mono">Gave up after {item.retry.attempt} attempts</p>
+                            )}
                           </div>
                         </div>
                       )}
@@ -592,37 +1428,109 @@ const App: React.FC = () => {
 
                 {/* Metadata Footer */}
                 <div className="p-4 bg-slate-900 space-y-4">
+                  {/* Per-item Overrides */}
+                  {settingsEditorId === item.id && (
+                    <div className="border-b border-slate-700/50 pb-4">
+                      <ItemSettingsEditor
+                        overrides={item.overrides ?? {}}
+                        base={item.parentId && item.settings ? item.settings : settings}
+                        disabled={item.status === 'processing' || item.status === 'queued'}
+                        onChange={overrides => updateOverrides(item.id, overrides)}
+                      />
+                      <div className="mt-3 space-y-1.5">
+                        <span className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">Item References</span>
+                        <ReferenceList
+                          references={item.references ?? []}
+                          disabled={item.status === 'processing' || item.status === 'queued'}
+                          onChange={references => itemStore.dispatch({ type: 'update', id: item.id, patch: { references: references.length ? references : undefined } })}
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   {/* Stats Grid */}
                   <div className="grid grid-cols-2 gap-2 text-[10px] font-mono border-b border-slate-700/50 pb-4">
                     <div className="text-slate-500">
                       <span className="block text-slate-400 font-bold mb-1 tracking-wider">SOURCE</span>
-                      {item.metadata.width} × {item.metadata.height}px <br />
-                      {formatBytes(item.metadata.sizeBytes)}
+                      {item.placeholder ? (
+                        <>From prompt <br /> {item.overrides?.aspectRatio ?? settings.aspectRatio}</>
+                      ) : (
+                        <>
+                          {item.metadata.width} × {item.metadata.height}px <br />
+                          {formatBytes(item.metadata.sizeBytes)}
+                          {item.generation?.upload && (
+                            <span className="block text-slate-600" title={`Sent as ${item.generation.upload.mimeType}, metadata stripped`}>
+                              sent {formatSize(item.generation.upload.sentSize)} · {formatBytes(item.generation.upload.sentBytes)}
+                              {item.generation.upload.sentBytes < item.generation.upload.originalBytes &&
+                                ` (−${Math.round((1 - item.generation.upload.sentBytes / item.generation.upload.originalBytes) * 100)}%)`}
+                            </span>
+                          )}
+                          {item.metadata.convertedFrom && (
+                            <span className="block text-slate-600" title="Converted on import">
+                              {item.metadata.convertedFrom.split('/')[1].toUpperCase()} → {item.metadata.mimeType.split('/')[1].toUpperCase()}
+                            </span>
+                          )}
+                        </>
+                      )}
                     </div>
                     {item.resultMetadata && (
                       <div className="text-right text-slate-500">
                         <span className="block text-amber-400 font-bold mb-1 tracking-wider">GENERATED</span>
                         {item.resultMetadata.width} × {item.resultMetadata.height}px <br />
+                        {item.generation?.returnedSize && (
+                          <span className="block text-slate-600" title="Model output before the exact-size resize">
+                            from {formatSize(item.generation.returnedSize)}
+                          </span>
+                        )}
                         {formatBytes(item.resultMetadata.sizeBytes)}
+                        {item.generation && (
+                          <>
+                            <br />
+                            {(item.generation.latencyMs / 1000).toFixed(1)}s
+                            {item.generation.usage && ` · ${item.generation.usage.totalTokens} tok`}
+                            {item.generation.cost !== undefined && ` · $${item.generation.cost.toFixed(3)}`}
+                          </>
+                        )}
                       </div>
                     )}
                   </div>
 
+                  {/* Edit History */}
+                  {item.history && item.history.length > 0 && (
+                    <div className="border-b border-slate-700/50 pb-4">
+                      <EditTimeline
+                        item={item}
+                        disabled={item.status === 'processing' || item.status === 'queued'}
+                        onSelect={stepId => revertToStep(item.id, stepId)}
+                        onRefine={prompt => refineItem(item.id, prompt)}
+                      />
+                    </div>
+                  )}
+
+                  {item.reviewNote && (
+                    <p className="text-[10px] text-slate-400 italic truncate" title={item.reviewNote}>Review note: {item.reviewNote}</p>
+                  )}
+
                   {/* Actions */}
                   <div className="flex gap-2">
-                    {item.status !== 'success' && item.status !== 'processing' && (
-                      <Button size="sm" variant="secondary" onClick={() => processImage(item.id)} className="w-full font-semibold">
-                        Generate Image
+                    {(item.status === 'idle' || item.status === 'error' || item.status === 'rejected') && (
+                      <Button size="sm" variant="secondary" onClick={() => enqueueItems([{ id: item.id }])} disabled={missingVariables.length > 0} className="w-full font-semibold">
+                        {item.pendingEdit ? 'Retry Edit' : item.status === 'rejected' ? 'Regenerate' : isLocalMode(itemMode(item)) && !item.placeholder ? 'Convert · Free' : 'Generate Image'}
                       </Button>
                     )}
-                    {item.status !== 'processing' && (
+                    {item.status !== 'processing' && item.status !== 'queued' && !item.placeholder && (
                       <Button size="sm" variant="secondary" onClick={() => removeTextVariant(item.id)} className="w-full font-semibold bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700">
                         Remove Text
                       </Button>
                     )}
-                    {item.status === 'success' && (
+                    {item.status !== 'processing' && item.status !== 'queued' && !item.placeholder && (
+                      <Button size="sm" variant="secondary" onClick={() => setVariantSourceId(item.id)} className="w-full font-semibold bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700">
+                        Variants…
+                      </Button>
+                    )}
+                    {hasResultStatus(item.status) && (
                       <Button size="sm" variant="primary" onClick={() => downloadItem(item)} className="w-full bg-gradient-to-r from-amber-600 to-amber-500 hover:from-amber-500 hover:to-amber-400 font-semibold">
-                        Download {settings.exportFormat.split('/')[1].toUpperCase()}
+                        Download {getResultExtension(item).toUpperCase()}
                       </Button>
                     )}
                   </div>
@@ -1,4 +1,5 @@
 import { GoogleGenAI } from "@google/genai";
+import { getImageProvider } from "./netlify/providers";
 
 const apiKey = "YOUR_API_KEY_HERE";
 const ai = new GoogleGenAI({ apiKey });
@@ -11,14 +12,13 @@ async function checkStatus() {
         console.log("\n--- Listing Available Models ---");
         // Attempt to list models. If this fails, we'll know listing is restricted.
         try {
-            const response = await ai.models.list();
-            const models = response.models || [];
+            const models = await getImageProvider(apiKey).listModels();
 
             if (models.length === 0) {
                 console.log("No models found in the list.");
             } else {
-                models.forEach((m: any) => {
-                    console.log(`- ${m.name}`);
+                models.forEach(m => {
+                    console.log(`- ${m}`);
                 });
             }
         } catch (e: any) {
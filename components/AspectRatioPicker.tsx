@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { AspectRatio, GenerationSettings, OutputSize } from '../types';
+import {
+  findPlatformTarget,
+  formatSize,
+  isValidOutputSize,
+  isValidRatio,
+  MAX_OUTPUT_EDGE,
+  PLATFORM_TARGETS,
+  ratioFromSize,
+  sizeMatchesRatio
+} from '../services/aspectRatios';
+
+type RatioSettings = Pick<GenerationSettings, 'aspectRatio' | 'outputSize'>;
+
+interface AspectRatioPickerProps extends RatioSettings {
+  onChange: (value: RatioSettings) => void;
+}
+
+const CUSTOM = 'custom';
+const TARGET_PREFIX = 'target:';
+
+const inputClass = "w-full min-w-0 bg-slate-950/70 border rounded-lg px-2 py-1.5 text-xs text-slate-100 font-mono focus:outline-none focus:ring-2 focus:ring-amber-500/40 placeholder:text-slate-600";
+
+const optionFor = ({ aspectRatio, outputSize }: RatioSettings) => {
+  const target = findPlatformTarget(outputSize);
+  if (target) return TARGET_PREFIX + target.id;
+  if (!outputSize && (Object.values(AspectRatio) as string[]).includes(aspectRatio)) return aspectRatio;
+  return CUSTOM;
+};
+
+export const AspectRatioPicker: React.FC<AspectRatioPickerProps> = ({ aspectRatio, outputSize, onChange }) => {
+  const [isCustom, setIsCustom] = useState(() => optionFor({ aspectRatio, outputSize }) === CUSTOM);
+  const [ratioDraft, setRatioDraft] = useState<string>(aspectRatio);
+  const [sizeDraft, setSizeDraft] = useState({ width: outputSize ? String(outputSize.width) : '', height: outputSize ? String(outputSize.height) : '' });
+
+  const selected = isCustom ? CUSTOM : optionFor({ aspectRatio, outputSize });
+  const showCustom = selected === CUSTOM;
+
+  const handleSelect = (value: string) => {
+    if (value === CUSTOM) {
+      setIsCustom(true);
+      setRatioDraft(aspectRatio);
+      setSizeDraft({ width: outputSize ? String(outputSize.width) : '', height: outputSize ? String(outputSize.height) : '' });
+      return;
+    }
+    setIsCustom(false);
+    const target = PLATFORM_TARGETS.find(t => TARGET_PREFIX + t.id === value);
+    if (target) {
+      const size: OutputSize = { width: target.width, height: target.height };
+      onChange({ aspectRatio: ratioFromSize(size), outputSize: size });
+    } else {
+      onChange({ aspectRatio: value as AspectRatio, outputSize: undefined });
+    }
+  };
+
+  const handleRatio = (value: string) => {
+    setRatioDraft(value);
+    const ratio = value.replace(/\s/g, '');
+    if (!isValidRatio(ratio)) return;
+    // A size that no longer fits the ratio would force a heavy crop, so drop it
+    onChange({ aspectRatio: ratio, outputSize: outputSize && sizeMatchesRatio(outputSize, ratio) ? outputSize : undefined });
+    if (outputSize && !sizeMatchesRatio(outputSize, ratio)) setSizeDraft({ width: '', height: '' });
+  };
+
+  const handleSize = (draft: { width: string; height: string }) => {
+    setSizeDraft(draft);
+    if (!draft.width && !draft.height) {
+      onChange({ aspectRatio, outputSize: undefined });
+      return;
+    }
+    const size = { width: Number(draft.width), height: Number(draft.height) };
+    if (!isValidOutputSize(size)) return;
+    const ratio = ratioFromSize(size);
+    setRatioDraft(ratio);
+    onChange({ aspectRatio: ratio, outputSize: size });
+  };
+
+  const ratioInvalid = showCustom && !isValidRatio(ratioDraft.replace(/\s/g, ''));
+  const sizeInvalid = showCustom && (sizeDraft.width !== '' || sizeDraft.height !== '')
+    && !isValidOutputSize({ width: Number(sizeDraft.width), height: Number(sizeDraft.height) });
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <select
+          value={selected}
+          onChange={e => handleSelect(e.target.value)}
+          className="w-full bg-slate-950/70 border border-slate-700/50 rounded-xl px-3 py-3.5 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/40 appearance-none cursor-pointer shadow-inner transition-all hover:border-slate-600"
+        >
+          <optgroup label="Ratios">
+            {Object.values(AspectRatio).map(r => <option key={r} value={r}>{r}</option>)}
+          </optgroup>
+          <optgroup label="Platforms (exact size)">
+            {PLATFORM_TARGETS.map(t => (
+              <option key={t.id} value={TARGET_PREFIX + t.id}>{t.name} · {formatSize(t)}</option>
+            ))}
+          </optgroup>
+          <option value={CUSTOM}>Custom…</option>
+        </select>
+        <div className="absolute right-3 top-3.5 pointer-events-none text-slate-400">
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+        </div>
+      </div>
+
+      {showCustom && (
+        <div className="space-y-1.5">
+          <input
+            type="text"
+            value={ratioDraft}
+            placeholder="W:H, e.g. 5:4"
+            onChange={e => handleRatio(e.target.value)}
+            className={`${inputClass} ${ratioInvalid ? 'border-red-500/50' : 'border-slate-700/50'}`}
+          />
+          <div className="flex items-center gap-1.5">
+            <input
+              type="number"
+              min={1}
+              max={MAX_OUTPUT_EDGE}
+              value={sizeDraft.width}
+              placeholder="Width"
+              onChange={e => handleSize({ ...sizeDraft, width: e.target.value })}
+              className={`${inputClass} ${sizeInvalid ? 'border-red-500/50' : 'border-slate-700/50'}`}
+            />
+            <span className="text-slate-500 text-xs">×</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_OUTPUT_EDGE}
+              value={sizeDraft.height}
+              placeholder="Height"
+              onChange={e => handleSize({ ...sizeDraft, height: e.target.value })}
+              className={`${inputClass} ${sizeInvalid ? 'border-red-500/50' : 'border-slate-700/50'}`}
+            />
+          </div>
+          <p className="text-[10px] text-slate-500">Optional exact pixels; results are cropped and resized to match.</p>
+        </div>
+      )}
+
+      {!showCustom && outputSize && (
+        <p className="text-[10px] text-slate-500 font-mono">{aspectRatio} · exactly {formatSize(outputSize)}px</p>
+      )}
+    </div>
+  );
+};
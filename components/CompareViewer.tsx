@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { alignForCompare, ComparePair, computeDiffHeatmap, DiffResult } from '../services/imageDiff';
+
+type CompareMode = 'slider' | 'side-by-side' | 'flicker' | 'diff';
+
+export interface CompareSource {
+  label: string;
+  url: string;
+}
+
+interface CompareViewerProps {
+  title: string;
+  befores: CompareSource[]; // First entry is shown by default
+  afterUrl: string;
+  onClose: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MODES: { id: CompareMode; label: string }[] = [
+  { id: 'slider', label: 'Slider' },
+  { id: 'side-by-side', label: 'Side by side' },
+  { id: 'flicker', label: 'Flicker' },
+  { id: 'diff', label: 'Difference' },
+];
+
+const ZOOM_STEPS: { label: string; zoom: number | null }[] = [
+  { label: 'Fit', zoom: null },
+  { label: '1:1', zoom: 1 },
+  { label: '2:1', zoom: 2 },
+  { label: '4:1', zoom: 4 },
+];
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 16;
+const FLICKER_INTERVAL_MS = 450;
+
+export const CompareViewer: React.FC<CompareViewerProps> = ({ title, befores, afterUrl, onClose }) => {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+  const [beforeIndex, setBeforeIndex] = useState(0);
+  const [pair, setPair] = useState<ComparePair | null>(null);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [zoom, setZoom] = useState<number | null>(null); // null = fit to the stage
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+  const [split, setSplit] = useState(0.5);
+  const [showBefore, setShowBefore] = useState(false);
+  const [autoFlicker, setAutoFlicker] = useState(false);
+  const drag = useRef<{ kind: 'pan' | 'split'; last: Point } | null>(null);
+
+  const beforeUrl = befores[beforeIndex]?.url ?? befores[0]?.url;
+  // Zoom levels count device pixels, so 1:1 maps one image pixel to one screen pixel on HiDPI displays
+  const pixelScale = 1 / (window.devicePixelRatio || 1);
+
+  useEffect(() => {
+    setPair(null);
+    setDiff(null);
+    alignForCompare(beforeUrl, afterUrl).then(setPair).catch(e => console.warn("Compare failed", e));
+  }, [beforeUrl, afterUrl]);
+
+  useEffect(() => {
+    if (mode !== 'diff' || !pair || diff) return;
+    computeDiffHeatmap(pair).then(setDiff).catch(e => console.warn("Diff failed", e));
+  }, [mode, pair, diff]);
+
+  // Side-by-side panels share one transform, so measuring the first stage is enough
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, [mode, pair]);
+
+  useEffect(() => {
+    if (mode !== 'flicker' || !autoFlicker) return;
+    const timer = setInterval(() => setShowBefore(v => !v), FLICKER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [mode, autoFlicker]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === '0') applyZoom(null);
+      else if (e.key === '1') applyZoom(pixelScale);
+      else if (e.key === ' ' && mode === 'flicker') {
+        e.preventDefault();
+        setShowBefore(v => !v);
+      } else return;
+      e.stopPropagation();
+    };
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  }, [mode, onClose]);
+
+  const size = pair?.size;
+  const fitScale = size && stageSize.width ? Math.min(stageSize.width / size.width, stageSize.height / size.height) : 1;
+  const scale = zoom ?? fitScale;
+  const box = size
+    ? {
+      width: size.width * scale,
+      height: size.height * scale,
+      left: (stageSize.width - size.width * scale) / 2 + offset.x,
+      top: (stageSize.height - size.height * scale) / 2 + offset.y
+    }
+    : null;
+
+  const applyZoom = (next: number | null) => {
+    setZoom(next);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    if (!size || !box) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const cursor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+    // Keep the image point under the cursor in place
+    const imageX = (cursor.x - box.left) / scale;
+    const imageY = (cursor.y - box.top) / scale;
+    setZoom(next);
+    setOffset({
+      x: cursor.x - imageX * next - (stageSize.width - size.width * next) / 2,
+      y: cursor.y - imageY * next - (stageSize.height - size.height * next) / 2
+    });
+  };
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, kind: 'pan' | 'split') => {
+    e.stopPropagation();
+    // The split handle hands its drag to the stage so the divider follows the stage's coordinates
+    (kind === 'split' ? stageRef.current : e.currentTarget)?.setPointerCapture(e.pointerId);
+    drag.current = { kind, last: { x: e.clientX, y: e.clientY } };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = drag.current;
+    if (!current) return;
+    if (current.kind === 'split') {
+      moveSplit(e);
+      return;
+    }
+    setOffset(prev => ({ x: prev.x + e.clientX - current.last.x, y: prev.y + e.clientY - current.last.y }));
+    current.last = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const renderLayer = (url: string, alt: string, style: React.CSSProperties = {}) => box && (
+    <img
+      src={url}
+      alt={alt}
+      draggable={false}
+      className="absolute max-w-none select-none pointer-events-none"
+      style={{ ...box, imageRendering: scale >= 2 * pixelScale ? 'pixelated' : 'auto', ...style }}
+    />
+  );
+
+  const renderStage = (content: React.ReactNode, label: string | null, ref?: React.Ref<HTMLDivElement>) => (
+    <div
+      ref={ref}
+      className="relative flex-1 min-w-0 overflow-hidden bg-[repeating-conic-gradient(#1e293b_0%_25%,#0f172a_0%_50%)] bg-[length:24px_24px] cursor-grab active:cursor-grabbing touch-none"
+      onWheel={handleWheel}
+      onPointerDown={e => handlePointerDown(e, 'pan')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {content}
+      {label && (
+        <div className="absolute top-3 left-3 bg-black/70 backdrop-blur px-2 py-1 rounded-md text-[10px] text-slate-300 font-medium pointer-events-none">{label}</div>
+      )}
+    </div>
+  );
+
+  const before = pair?.before;
+  const after = pair?.after;
+  const dividerX = stageSize.width * split;
+  const clipRight = box ? box.width - Math.min(box.width, Math.max(0, dividerX - box.left)) : 0;
+
+  const renderContent = () => {
+    if (!pair || !before || !after) {
+      return <div className="flex-1 flex items-center justify-center"><div className="w-10 h-10 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" /></div>;
+    }
+
+    if (mode === 'side-by-side') {
+      return (
+        <div className="flex-1 flex gap-1 min-h-0">
+          {renderStage(renderLayer(before, 'Before'), befores[beforeIndex].label, stageRef)}
+          {renderStage(renderLayer(after, 'After'), 'Result')}
+        </div>
+      );
+    }
+
+    if (mode === 'flicker') {
+      return renderStage(renderLayer(showBefore ? before : after, 'Flicker'), showBefore ? befores[beforeIndex].label : 'Result', stageRef);
+    }
+
+    if (mode === 'diff') {
+      return renderStage(
+        diff ? renderLayer(diff.heatmapUrl, 'Difference') : <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-400 font-mono">Computing difference…</div>,
+        'Difference',
+        stageRef
+      );
+    }
+
+    return renderStage(
+      <>
+        {renderLayer(after, 'After')}
+        {renderLayer(before, 'Before', { clipPath: `inset(0 ${clipRight}px 0 0)` })}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-amber-400 shadow-[0_0_8px_rgba(0,0,0,0.6)]" style={{ left: dividerX - 1 }}>
+          <div
+            className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-8 h-8 rounded-full bg-amber-400 text-slate-900 text-xs font-bold flex items-center justify-center cursor-ew-resize shadow-lg"
+            onPointerDown={e => handlePointerDown(e, 'split')}
+          >
+            ⇆
+          </div>
+        </div>
+        <div className="absolute top-3 right-3 bg-banana-500/90 backdrop-blur px-2 py-1 rounded-md text-[10px] text-slate-900 font-bold pointer-events-none">Result</div>
+      </>,
+      befores[beforeIndex].label,
+      stageRef
+    );
+  };
+
+  const toolbarButton = (active: boolean) =>
+    `text-xs px-3 py-1.5 rounded-lg border transition-colors ${active ? 'bg-banana-500/20 border-banana-500/50 text-banana-400' : 'border-slate-700 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex flex-col bg-slate-950/95 backdrop-blur-md animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-1.5 p-3 border-b border-slate-800">
+        <span className="text-sm font-bold text-white mr-3 truncate max-w-[16rem]" title={title}>{title}</span>
+        {MODES.map(m => (
+          <button key={m.id} onClick={() => setMode(m.id)} className={toolbarButton(mode === m.id)}>{m.label}</button>
+        ))}
+        <span className="w-px h-5 bg-slate-700 mx-1" />
+        {ZOOM_STEPS.map(z => {
+          const next = z.zoom === null ? null : z.zoom * pixelScale;
+          return <button key={z.label} onClick={() => applyZoom(next)} className={toolbarButton(zoom === next)}>{z.label}</button>;
+        })}
+        <span className="text-[10px] font-mono text-slate-500 ml-1">{Math.round((scale / pixelScale) * 100)}%</span>
+        {befores.length > 1 && (
+          <select
+            value={beforeIndex}
+            onChange={e => setBeforeIndex(Number(e.target.value))}
+            className="ml-2 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+          >
+            {befores.map((b, i) => <option key={i} value={i}>vs {b.label}</option>)}
+          </select>
+        )}
+        {mode === 'flicker' && (
+          <>
+            <button onClick={() => setShowBefore(v => !v)} className={toolbarButton(false)}>Swap (Space)</button>
+            <button onClick={() => setAutoFlicker(v => !v)} className={toolbarButton(autoFlicker)}>Auto</button>
+          </>
+        )}
+        {mode === 'diff' && diff && (
+          <span className="text-xs font-mono text-amber-400 ml-2">{(diff.changedRatio * 100).toFixed(1)}% of pixels changed</span>
+        )}
+        <div className="flex-grow" />
+        {size && <span className="text-[10px] font-mono text-slate-500 mr-2">{size.width} × {size.height}px</span>}
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close (Esc)">
+          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex p-2">{renderContent()}</div>
+    </div>
+  );
+};
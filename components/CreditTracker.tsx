@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { BudgetSettings, CreditInfo } from '../types';
+
+interface CreditTrackerProps {
+  creditInfo: CreditInfo;
+  budget: BudgetSettings;
+  budgetExceeded: boolean;
+  onBudgetChange: (budget: BudgetSettings) => void;
+}
+
+export const CreditTracker: React.FC<CreditTrackerProps> = ({ creditInfo, budget, budgetExceeded, onBudgetChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [limitInput, setLimitInput] = useState(budget.limit?.toString() ?? '');
+
+  const periodSpend = budget.period === 'day' ? creditInfo.todayCost : creditInfo.monthCost;
+
+  const saveBudget = () => {
+    const parsed = parseFloat(limitInput);
+    onBudgetChange({ ...budget, limit: Number.isFinite(parsed) && parsed > 0 ? parsed : null });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="md:col-span-3 w-full flex items-center justify-end gap-3 pb-2 pl-4 border-l border-amber-900/30">
+      <div className="flex flex-col items-end space-y-0.5">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-slate-400">Session</span>
+          <span className="text-sm font-bold text-amber-400">{creditInfo.sessionGenerations} images</span>
+          <span className="text-sm font-mono font-bold text-amber-500">${creditInfo.estimatedSessionCost.toFixed(2)}</span>
+        </div>
+        <div className="flex items-center gap-2 text-[10px] font-mono text-slate-500">
+          <span>Today ${creditInfo.todayCost.toFixed(2)}</span>
+          <span className="text-slate-700">|</span>
+          <span>Month ${creditInfo.monthCost.toFixed(2)}</span>
+        </div>
+
+        {isEditing ? (
+          <div className="flex items-center gap-1 pt-1">
+            <span className="text-[10px] text-slate-500">$</span>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              autoFocus
+              value={limitInput}
+              placeholder="No cap"
+              onChange={e => setLimitInput(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && saveBudget()}
+              className="w-16 bg-slate-950/70 border border-slate-700/50 rounded-md px-1.5 py-0.5 text-[10px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+            />
+            <select
+              value={budget.period}
+              onChange={e => onBudgetChange({ ...budget, period: e.target.value as BudgetSettings['period'] })}
+              className="bg-slate-950/70 border border-slate-700/50 rounded-md px-1 py-0.5 text-[10px] text-slate-100 focus:outline-none"
+            >
+              <option value="day">/ day</option>
+              <option value="month">/ month</option>
+            </select>
+            <button onClick={saveBudget} className="text-[10px] text-amber-400 hover:text-amber-300 font-bold px-1">Save</button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsEditing(true)}
+            className={`text-[10px] transition-colors underline ${budgetExceeded ? 'text-red-400 font-bold' : 'text-slate-600 hover:text-amber-400'}`}
+            title="Set a spending cap that stops batch processing"
+          >
+            {budget.limit === null
+              ? 'Set budget cap'
+              : `Budget $${periodSpend.toFixed(2)} / $${budget.limit.toFixed(2)} per ${budget.period}${budgetExceeded ? ' reached' : ''}`}
+          </button>
+        )}
+
+        <a
+          href="https://console.cloud.google.com/billing"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[10px] text-slate-600 hover:text-amber-400 transition-colors underline"
+        >
+          View Billing →
+        </a>
+      </div>
+      <div className="flex flex-col items-center justify-center bg-gradient-to-br from-amber-500/20 to-amber-600/10 rounded-xl px-3 py-2 border border-amber-500/30">
+        <svg className="w-5 h-5 text-amber-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+        </svg>
+        <span className="text-[9px] font-bold text-amber-400 mt-0.5">PRO 2K</span>
+      </div>
+    </div>
+  );
+};
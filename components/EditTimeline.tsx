@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ImageItem } from '../types';
+import { stepNumber } from '../services/editHistory';
+import { hasResultStatus } from '../services/review';
+
+interface EditTimelineProps {
+  item: ImageItem;
+  disabled?: boolean;
+  onSelect: (stepId: string) => void;
+  onRefine: (prompt: string) => void;
+}
+
+export const EditTimeline: React.FC<EditTimelineProps> = ({ item, disabled, onSelect, onRefine }) => {
+  const [prompt, setPrompt] = useState('');
+  const history = item.history ?? [];
+  if (history.length === 0) return null;
+
+  const latestId = history[history.length - 1].id;
+  const branching = item.activeStepId !== latestId;
+
+  const handleRefine = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim()) return;
+    onRefine(prompt);
+    setPrompt('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1.5 overflow-x-auto pb-1">
+        {history.map((step, index) => {
+          // Steps that don't continue the one before them started a branch
+          const previousId = index > 0 ? history[index - 1].id : undefined;
+          const branchFrom = index > 0 && step.parentStepId !== previousId
+            ? (step.parentStepId ? `#${stepNumber(item, step.parentStepId)}` : 'original')
+            : null;
+          const active = step.id === item.activeStepId;
+          return (
+            <button
+              key={step.id}
+              onClick={() => onSelect(step.id)}
+              disabled={disabled}
+              title={`#${index + 1}: ${step.prompt || 'Default prompt'}${branchFrom ? ` (from ${branchFrom})` : ''}`}
+              className={`relative flex-shrink-0 w-14 h-14 rounded-lg overflow-hidden border-2 transition-colors disabled:opacity-50 ${active ? 'border-amber-400' : 'border-slate-700/50 hover:border-slate-500'}`}
+            >
+              <img src={step.resultUrl} className="w-full h-full object-cover" alt={`Step ${index + 1}`} />
+              <span className="absolute top-0.5 left-0.5 bg-black/70 text-[9px] text-slate-200 font-mono px-1 rounded">{index + 1}</span>
+              {branchFrom && (
+                <span className="absolute bottom-0.5 right-0.5 bg-amber-600/90 text-[8px] text-white font-mono px-1 rounded">↳{branchFrom === 'original' ? 'orig' : branchFrom}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {hasResultStatus(item.status) && !disabled && (
+        <form onSubmit={handleRefine} className="flex gap-1.5">
+          <input
+            type="text"
+            value={prompt}
+            onChange={e => setPrompt(e.target.value)}
+            placeholder={branching ? `Refine #${stepNumber(item, item.activeStepId!)} as a new branch…` : 'Refine this result, e.g. make the sky warmer'}
+            className="flex-grow min-w-0 bg-slate-950/70 border border-slate-700/50 rounded-lg px-2.5 py-1.5 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+          />
+          <button
+            type="submit"
+            disabled={!prompt.trim()}
+            className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-amber-400 hover:border-amber-500/50 transition-colors disabled:opacity-40"
+          >
+            Refine
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
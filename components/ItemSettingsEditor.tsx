@@ -0,0 +1,89 @@
+import React from 'react';
+import { AspectRatio, ConversionMode, ExportFormat, GenerationSettings, SettingsOverrides } from '../types';
+import { CONVERSION_MODES, DEFAULT_PAD_COLOR, getConversionMode } from '../services/conversion';
+import { EXPORT_FORMATS, getFormatInfo } from '../services/exportFormats';
+import { isFormatSupported } from '../services/imageOps';
+
+interface ItemSettingsEditorProps {
+  overrides: SettingsOverrides;
+  base: GenerationSettings; // What the item inherits when nothing is overridden
+  disabled?: boolean;
+  onChange: (overrides: SettingsOverrides) => void;
+}
+
+const selectClass = "w-full bg-slate-950/70 border border-slate-700/50 rounded-lg px-2 py-1.5 text-[11px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40 disabled:opacity-50";
+
+export const ItemSettingsEditor: React.FC<ItemSettingsEditorProps> = ({ overrides, base, disabled, onChange }) => {
+  const set = <K extends keyof SettingsOverrides>(key: K, value: SettingsOverrides[K] | '') => {
+    const next = { ...overrides, [key]: value === '' ? undefined : value };
+    onChange(next);
+  };
+
+  const mode = overrides.conversionMode ?? getConversionMode(base);
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-[10px]">
+      <label className="space-y-1">
+        <span className="text-slate-500 font-bold uppercase tracking-wider">Ratio</span>
+        <select
+          value={overrides.aspectRatio ?? ''}
+          disabled={disabled}
+          onChange={e => set('aspectRatio', e.target.value as AspectRatio | '')}
+          className={selectClass}
+        >
+          <option value="">Default ({base.aspectRatio})</option>
+          {Object.values(AspectRatio).map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-slate-500 font-bold uppercase tracking-wider">Format</span>
+        <select
+          value={overrides.exportFormat ?? ''}
+          disabled={disabled}
+          onChange={e => set('exportFormat', e.target.value as ExportFormat | '')}
+          className={selectClass}
+        >
+          <option value="">Default ({getFormatInfo(base.exportFormat).label})</option>
+          {EXPORT_FORMATS.map(f => (
+            <option key={f.id} value={f.id} disabled={!isFormatSupported(f.id)}>{f.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="col-span-2 space-y-1">
+        <span className="text-slate-500 font-bold uppercase tracking-wider">Mode</span>
+        <div className="flex gap-2">
+          <select
+            value={overrides.conversionMode ?? ''}
+            disabled={disabled}
+            onChange={e => set('conversionMode', e.target.value as ConversionMode | '')}
+            className={selectClass}
+          >
+            <option value="">Default ({CONVERSION_MODES.find(m => m.id === getConversionMode(base))?.label})</option>
+            {CONVERSION_MODES.map(m => <option key={m.id} value={m.id}>{m.label}{m.paid ? '' : ' (free)'}</option>)}
+          </select>
+          {(mode === 'pad' || mode === 'pad-outpaint') && (
+            <input
+              type="color"
+              value={overrides.padColor ?? base.padColor ?? DEFAULT_PAD_COLOR}
+              disabled={disabled}
+              onChange={e => set('padColor', e.target.value)}
+              title="Padding colour"
+              className="w-8 h-7 flex-shrink-0 bg-transparent border border-slate-700/50 rounded cursor-pointer disabled:opacity-50"
+            />
+          )}
+        </div>
+      </label>
+      <label className="col-span-2 space-y-1">
+        <span className="text-slate-500 font-bold uppercase tracking-wider">Prompt</span>
+        <input
+          type="text"
+          value={overrides.prompt ?? ''}
+          disabled={disabled}
+          placeholder={base.prompt || 'Uses the global prompt'}
+          onChange={e => set('prompt', e.target.value)}
+          className={`${selectClass} placeholder:text-slate-600`}
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { isMaskEmpty } from '../services/mask';
+
+type MaskTool = 'brush' | 'eraser' | 'rect' | 'lasso';
+
+interface MaskEditorProps {
+  isOpen: boolean;
+  imageUrl: string;
+  initialMask?: string;
+  onClose: () => void;
+  onSave: (mask: string | undefined) => void; // undefined clears the mask
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const TOOLS: { id: MaskTool; label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'eraser', label: 'Eraser' },
+  { id: 'rect', label: 'Rectangle' },
+  { id: 'lasso', label: 'Lasso' },
+];
+
+// Painted in a solid colour; only the alpha channel matters once saved
+const MASK_COLOR = '#ef4444';
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, imageUrl, initialMask, onClose, onSave }) => {
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushPercent, setBrushPercent] = useState(4); // Brush diameter as % of the long edge
+  const drawing = useRef<{ start: Point; points: Point[] } | null>(null);
+
+  // Size the canvases to the image's natural resolution, then restore the saved mask
+  useEffect(() => {
+    if (!isOpen) return;
+    setSize(null);
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = imageUrl;
+  }, [isOpen, imageUrl]);
+
+  useEffect(() => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!size || !ctx) return;
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (!initialMask) return;
+    const mask = new Image();
+    mask.onload = () => ctx.drawImage(mask, 0, 0, size.width, size.height);
+    mask.src = initialMask;
+  }, [size, initialMask]);
+
+  if (!isOpen) return null;
+
+  const brushSize = size ? Math.max(1, Math.round(Math.max(size.width, size.height) * brushPercent / 100)) : 1;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height)
+    };
+  };
+
+  const clearOverlay = () => {
+    const overlay = overlayRef.current;
+    overlay?.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height);
+  };
+
+  const tracePath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+    ctx.beginPath();
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    drawing.current = { start: point, points: [point] };
+
+    if (tool === 'brush' || tool === 'eraser') {
+      ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, brushSize / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const current = drawing.current;
+    const ctx = maskRef.current?.getContext('2d');
+    const overlay = overlayRef.current?.getContext('2d');
+    if (!current || !ctx || !overlay) return;
+    const point = toCanvasPoint(e);
+    const last = current.points[current.points.length - 1];
+    current.points.push(point);
+
+    if (tool === 'brush' || tool === 'eraser') {
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = brushSize;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      tracePath(ctx, [last, point]);
+      ctx.stroke();
+      return;
+    }
+
+    // Rectangle and lasso are previewed on the overlay and committed on release
+    clearOverlay();
+    overlay.strokeStyle = '#fbbf24';
+    overlay.lineWidth = Math.max(2, brushSize / 8);
+    overlay.setLineDash([overlay.lineWidth * 3, overlay.lineWidth * 2]);
+    if (tool === 'rect') {
+      overlay.strokeRect(current.start.x, current.start.y, point.x - current.start.x, point.y - current.start.y);
+    } else {
+      tracePath(overlay, current.points);
+      overlay.closePath();
+      overlay.stroke();
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const current = drawing.current;
+    const ctx = maskRef.current?.getContext('2d');
+    drawing.current = null;
+    clearOverlay();
+    if (!current || !ctx) return;
+
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    if (tool === 'rect') {
+      const end = toCanvasPoint(e);
+      ctx.fillRect(current.start.x, current.start.y, end.x - current.start.x, end.y - current.start.y);
+    } else if (tool === 'lasso' && current.points.length > 2) {
+      tracePath(ctx, current.points);
+      ctx.closePath();
+      ctx.fill();
+    }
+  };
+
+  const handleClear = () => {
+    const mask = maskRef.current;
+    mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
+  };
+
+  const handleSave = () => {
+    const mask = maskRef.current;
+    onSave(!mask || isMaskEmpty(mask) ? undefined : mask.toDataURL('image/png'));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl p-6 max-w-4xl w-full shadow-2xl max-h-[95vh] flex flex-col">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Edit Region</h2>
+            <p className="text-sm text-slate-400 mt-1">Paint the area the model may change. Everything else keeps the original pixels.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-1.5 mb-4">
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTool(t.id)}
+              className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${tool === t.id ? 'bg-banana-500/20 border-banana-500/50 text-banana-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+          {(tool === 'brush' || tool === 'eraser') && (
+            <label className="flex items-center gap-2 text-xs text-slate-400 ml-2">
+              Size
+              <input type="range" min={1} max={20} value={brushPercent} onChange={e => setBrushPercent(Number(e.target.value))} className="accent-amber-500" />
+            </label>
+          )}
+          <div className="flex-grow" />
+          <Button size="sm" variant="ghost" onClick={handleClear}>Clear</Button>
+        </div>
+
+        {/* Canvas */}
+        <div className="flex-grow min-h-0 flex items-center justify-center bg-slate-950 rounded-xl overflow-hidden">
+          {size ? (
+            <div className="relative inline-block">
+              <img src={imageUrl} className="block max-w-full max-h-[65vh] select-none pointer-events-none" alt="Source" />
+              <canvas ref={maskRef} width={size.width} height={size.height} className="absolute inset-0 w-full h-full opacity-50 pointer-events-none" />
+              <canvas
+                ref={overlayRef}
+                width={size.width}
+                height={size.height}
+                className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            </div>
+          ) : (
+            <div className="w-10 h-10 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-4 items-center">
+          <span className="text-xs text-slate-500 flex-grow">Masked edits keep the source frame and size.</span>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleSave}>Save Mask</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
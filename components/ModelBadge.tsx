@@ -0,0 +1,42 @@
+import React from 'react';
+import { GenerationInfo } from '../types';
+
+// "gemini-3-pro-image-preview" -> "Gemini 3 Pro"
+export const formatModelName = (model: string) =>
+  model
+    .replace(/-(image|preview|exp)\b/g, '')
+    .split('-')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+
+interface ModelBadgeProps {
+  generation: GenerationInfo;
+  className?: string;
+}
+
+export const ModelBadge: React.FC<ModelBadgeProps> = ({ generation, className = '' }) => {
+  const usage = generation.usage;
+  const title = [
+    generation.model,
+    `${(generation.latencyMs / 1000).toFixed(1)}s`,
+    usage ? `${usage.promptTokens} in / ${usage.outputTokens} out tokens` : null,
+    generation.aspectRatioMode === 'config' ? 'Ratio set natively' : generation.aspectRatioMode === 'prompt' ? 'Ratio requested in prompt' : null,
+    generation.fallbackUsed ? 'Primary model failed, served by fallback' : null
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div
+      title={title}
+      className={`backdrop-blur px-2 py-1 rounded-md text-[10px] font-bold shadow-lg flex items-center gap-1 ${generation.fallbackUsed
+        ? 'bg-orange-600/90 text-white'
+        : 'bg-emerald-600/90 text-white'
+        } ${className}`}
+    >
+      {generation.fallbackUsed && (
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" /></svg>
+      )}
+      {formatModelName(generation.model)}
+      {generation.fallbackUsed && <span className="font-medium opacity-80">(fallback)</span>}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './Button';
+import { PromptPreset } from '../types';
+import { exportPresets, extractVariables, parsePresetImport } from '../services/presets';
+
+interface PresetLibraryModalProps {
+  isOpen: boolean;
+  presets: PromptPreset[];
+  currentPrompt: string;
+  onClose: () => void;
+  onApply: (preset: PromptPreset) => void;
+  onSave: (preset: PromptPreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: PromptPreset[]) => void;
+}
+
+export const PresetLibraryModal: React.FC<PresetLibraryModalProps> = ({
+  isOpen,
+  presets,
+  currentPrompt,
+  onClose,
+  onApply,
+  onSave,
+  onDelete,
+  onImport
+}) => {
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: '', prompt: '', tags: '' });
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const allTags = [...new Set(presets.flatMap(p => p.tags))].sort();
+  const visible = activeTag ? presets.filter(p => p.tags.includes(activeTag)) : presets;
+
+  const startCreate = () => {
+    setDraft({ name: '', prompt: currentPrompt, tags: '' });
+    setIsCreating(true);
+    setError('');
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || !draft.prompt.trim()) {
+      setError('Name and prompt are required.');
+      return;
+    }
+    onSave({
+      id: Math.random().toString(36).substr(2, 9),
+      name: draft.name.trim(),
+      prompt: draft.prompt.trim(),
+      tags: draft.tags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)
+    });
+    setIsCreating(false);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(presets)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'nano_banana_presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      onImport(parsePresetImport(await file.text(), presets));
+      setError('');
+    } catch (err: any) {
+      setError(`Import failed: ${err.message}`);
+    }
+    if (importInputRef.current) importInputRef.current.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl p-8 max-w-2xl w-full shadow-2xl relative overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Prompt Presets</h2>
+            <p className="text-sm text-slate-400 mt-1">Use <code className="text-banana-400">{'{{variable}}'}</code> placeholders to fill in values per run.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {/* Tag Filter */}
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          <button
+            onClick={() => setActiveTag(null)}
+            className={`text-[10px] px-2.5 py-1 rounded-full border transition-colors ${activeTag === null ? 'bg-banana-500/20 border-banana-500/50 text-banana-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+            All
+          </button>
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(tag)}
+              className={`text-[10px] px-2.5 py-1 rounded-full border transition-colors ${activeTag === tag ? 'bg-banana-500/20 border-banana-500/50 text-banana-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+
+        {/* Preset List */}
+        <div className="flex-grow overflow-y-auto space-y-2 pr-1">
+          {visible.map(preset => {
+            const variables = extractVariables(preset.prompt);
+            return (
+              <div key={preset.id} className="bg-slate-950/60 border border-slate-800 rounded-xl p-4 flex gap-4 items-start">
+                <div className="flex-grow min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-white">{preset.name}</span>
+                    {preset.builtIn && <span className="text-[9px] uppercase tracking-wider text-slate-500 border border-slate-700 rounded px-1.5">Built-in</span>}
+                  </div>
+                  <p className="text-xs text-slate-400 line-clamp-2">{preset.prompt}</p>
+                  <div className="flex flex-wrap gap-1.5 text-[10px]">
+                    {preset.tags.map(tag => <span key={tag} className="text-slate-500">#{tag}</span>)}
+                    {variables.map(v => <span key={v} className="text-banana-400/80 font-mono">{`{{${v}}}`}</span>)}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1.5 flex-shrink-0">
+                  <Button size="sm" variant="primary" onClick={() => onApply(preset)}>Use</Button>
+                  {!preset.builtIn && (
+                    <Button size="sm" variant="danger" onClick={() => onDelete(preset.id)}>Delete</Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Create Form */}
+        {isCreating && (
+          <form onSubmit={handleCreate} className="mt-4 space-y-2 border-t border-slate-800 pt-4">
+            <input
+              type="text"
+              autoFocus
+              placeholder="Preset name"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-banana-500/50"
+            />
+            <textarea
+              rows={3}
+              placeholder="Prompt, e.g. Replace the sky with {{sky}}"
+              value={draft.prompt}
+              onChange={e => setDraft({ ...draft, prompt: e.target.value })}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-banana-500/50"
+            />
+            <input
+              type="text"
+              placeholder="Tags, comma separated"
+              value={draft.tags}
+              onChange={e => setDraft({ ...draft, tags: e.target.value })}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-banana-500/50"
+            />
+            <div className="flex gap-2 justify-end">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setIsCreating(false)}>Cancel</Button>
+              <Button type="submit" size="sm" variant="primary">Save Preset</Button>
+            </div>
+          </form>
+        )}
+
+        {error && <p className="text-red-400 text-xs mt-3">{error}</p>}
+
+        {/* Footer Actions */}
+        <div className="flex gap-2 pt-4 mt-4 border-t border-slate-800">
+          {!isCreating && <Button size="sm" variant="secondary" onClick={startCreate}>New Preset</Button>}
+          <div className="flex-grow" />
+          <Button size="sm" variant="ghost" onClick={() => importInputRef.current?.click()}>Import JSON</Button>
+          <Button size="sm" variant="ghost" onClick={handleExport} disabled={!presets.some(p => !p.builtIn)}>Export JSON</Button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={e => handleImport(e.target.files)} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useRef } from 'react';
+import { ReferenceImage } from '../types';
+import { fileToReference } from '../services/references';
+import { ACCEPTED_FILE_TYPES, ingestFile, isImageCandidate } from '../services/ingest';
+
+interface ReferenceListProps {
+  references: ReferenceImage[];
+  disabled?: boolean;
+  onChange: (references: ReferenceImage[]) => void;
+}
+
+export const ReferenceList: React.FC<ReferenceListProps> = ({ references, disabled, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = async (files: FileList | null) => {
+    if (!files) return;
+    const added: ReferenceImage[] = [];
+    for (const file of Array.from(files)) {
+      if (!isImageCandidate(file)) continue;
+      try {
+        added.push(await fileToReference((await ingestFile(file)).file));
+      } catch (e) {
+        console.warn(`Could not read reference ${file.name}`, e);
+      }
+    }
+    onChange([...references, ...added]);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const update = (id: string, label: string) => onChange(references.map(r => (r.id === id ? { ...r, label } : r)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...references];
+    const [ref] = next.splice(index, 1);
+    next.splice(index + offset, 0, ref);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 items-stretch">
+      {references.map((ref, index) => (
+        <div key={ref.id} className="w-28 bg-slate-950/60 border border-slate-700/50 rounded-lg p-1.5 space-y-1">
+          <div className="relative aspect-square bg-slate-900 rounded overflow-hidden">
+            <img src={ref.dataUrl} className="w-full h-full object-contain" alt={ref.label} />
+            <span className="absolute top-1 left-1 bg-black/70 text-[9px] text-slate-300 font-mono px-1 rounded">{index + 1}</span>
+          </div>
+          <input
+            type="text"
+            value={ref.label}
+            disabled={disabled}
+            onChange={e => update(ref.id, e.target.value)}
+            className="w-full bg-slate-900 border border-slate-700/50 rounded px-1.5 py-0.5 text-[10px] text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40 disabled:opacity-50"
+          />
+          <div className="flex justify-between text-[10px] text-slate-500">
+            <button onClick={() => move(index, -1)} disabled={disabled || index === 0} className="hover:text-white disabled:opacity-30">←</button>
+            <button onClick={() => onChange(references.filter(r => r.id !== ref.id))} disabled={disabled} className="hover:text-red-400 disabled:opacity-30">Remove</button>
+            <button onClick={() => move(index, 1)} disabled={disabled || index === references.length - 1} className="hover:text-white disabled:opacity-30">→</button>
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="w-28 min-h-[6rem] border border-dashed border-slate-700 rounded-lg text-[10px] text-slate-500 hover:text-amber-400 hover:border-amber-500/50 transition-colors disabled:opacity-40"
+      >
+        + Add reference
+      </button>
+      <input ref={inputRef} type="file" accept={ACCEPTED_FILE_TYPES} multiple className="hidden" onChange={e => handleAdd(e.target.files)} />
+    </div>
+  );
+};
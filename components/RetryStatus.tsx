@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { RetryState } from '../types';
+
+// Re-renders once a second while a deadline is pending
+export const useCountdown = (deadline?: number | null) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+};
+
+interface RetryStatusProps {
+  retry: RetryState;
+}
+
+export const RetryStatus: React.FC<RetryStatusProps> = ({ retry }) => {
+  const secondsLeft = useCountdown(retry.nextRetryAt);
+
+  return (
+    <div className="flex flex-col items-center gap-0.5 text-[10px] font-mono" title={retry.lastError}>
+      <span className="text-amber-300 font-bold">Attempt {retry.attempt}/{retry.maxAttempts}</span>
+      {retry.nextRetryAt && secondsLeft > 0 && (
+        <span className="text-slate-400">Retrying in {secondsLeft}s</span>
+      )}
+    </div>
+  );
+};
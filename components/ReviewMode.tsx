@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageItem } from '../types';
+import { hasResultStatus } from '../services/review';
+
+export type ReviewDecision = 'approved' | 'rejected' | 'success'; // 'success' clears the decision
+
+interface ReviewModeProps {
+  items: ImageItem[]; // Fixed when review starts, so decisions don't reshuffle the list
+  paused?: boolean; // Another overlay (the compare viewer) owns the keyboard
+  describe: (item: ImageItem) => string;
+  onDecide: (id: string, decision: ReviewDecision) => void;
+  onNoteChange: (id: string, note: string) => void;
+  onRegenerate: (id: string) => void;
+  onCompare: (id: string) => void;
+  onClose: () => void;
+}
+
+const SHORTCUTS: { keys: string; label: string }[] = [
+  { keys: '← →', label: 'Previous / next' },
+  { keys: 'A', label: 'Accept' },
+  { keys: 'X', label: 'Reject' },
+  { keys: 'U', label: 'Undo decision' },
+  { keys: 'R', label: 'Regenerate' },
+  { keys: 'N', label: 'Note' },
+  { keys: 'C', label: 'Compare' },
+  { keys: 'Esc', label: 'Exit' },
+];
+
+const DECISION_STYLES: Record<string, string> = {
+  approved: 'bg-emerald-500/90 text-white',
+  rejected: 'bg-rose-600/90 text-white',
+};
+
+export const ReviewMode: React.FC<ReviewModeProps> = ({ items, paused, describe, onDecide, onNoteChange, onRegenerate, onCompare, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const noteRef = useRef<HTMLInputElement>(null);
+  const current = items[Math.min(index, items.length - 1)];
+
+  const go = (offset: number) => setIndex(i => Math.min(items.length - 1, Math.max(0, i + offset)));
+
+  // Deciding moves on to the next result so a batch can be reviewed with one hand
+  const decide = (decision: ReviewDecision) => {
+    if (!current || !hasResultStatus(current.status)) return;
+    onDecide(current.id, decision);
+    if (decision !== 'success') go(1);
+  };
+
+  useEffect(() => {
+    if (paused) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        if (e.key === 'Escape' || e.key === 'Enter') (e.target as HTMLElement).blur();
+        return;
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey || !current) return;
+
+      switch (e.key.toLowerCase()) {
+        case 'arrowright': case 'j': go(1); break;
+        case 'arrowleft': case 'k': go(-1); break;
+        case 'a': decide('approved'); break;
+        case 'x': decide('rejected'); break;
+        case 'u': decide('success'); break;
+        case 'r': onRegenerate(current.id); break;
+        case 'c': if (current.resultUrl) onCompare(current.id); break;
+        case 'n': noteRef.current?.focus(); break;
+        case 'escape': onClose(); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  if (!current) return null;
+
+  const approved = items.filter(i => i.status === 'approved').length;
+  const rejected = items.filter(i => i.status === 'rejected').length;
+  const busy = current.status === 'queued' || current.status === 'processing';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex flex-col bg-slate-950/95 backdrop-blur-md animate-fade-in">
+      {/* Header */}
+      <div className="flex items-center gap-4 p-3 border-b border-slate-800">
+        <span className="text-sm font-bold text-white">Review</span>
+        <span className="text-xs font-mono text-slate-400">{index + 1} / {items.length}</span>
+        <span className="text-xs font-mono text-emerald-400">✓ {approved}</span>
+        <span className="text-xs font-mono text-rose-400">✗ {rejected}</span>
+        <div className="flex-grow" />
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Exit review (Esc)">
+          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      {/* Current Result */}
+      <div className="flex-1 min-h-0 flex gap-3 p-3">
+        <div className="w-48 flex-shrink-0 hidden md:flex flex-col gap-2">
+          <span className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">Original</span>
+          <img src={current.previewUrl} className="w-full rounded-lg border border-slate-800 object-contain" alt="Original" />
+        </div>
+        <div className="relative flex-1 min-w-0 flex items-center justify-center bg-slate-900/60 rounded-xl overflow-hidden">
+          {current.resultUrl && (
+            <img src={current.resultUrl} className={`max-w-full max-h-full object-contain ${busy ? 'opacity-30 blur-sm' : ''}`} alt="Result" />
+          )}
+          {busy && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center">
+              <div className="w-12 h-12 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+              <span className="text-xs text-amber-400 mt-3 font-mono animate-pulse">Regenerating…</span>
+            </div>
+          )}
+          {current.status === 'error' && (
+            <div className="absolute inset-x-0 bottom-0 bg-red-900/80 p-3 text-xs text-red-100 text-center">{current.errorMessage}</div>
+          )}
+          {DECISION_STYLES[current.status] && (
+            <div className={`absolute top-3 right-3 px-3 py-1 rounded-md text-xs font-bold uppercase tracking-wider shadow-lg ${DECISION_STYLES[current.status]}`}>
+              {current.status}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="p-3 border-t border-slate-800 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-slate-300 font-medium truncate max-w-[16rem]" title={current.originalFile.name}>{current.originalFile.name}</span>
+          <span className="text-[10px] text-slate-500 font-mono truncate max-w-[20rem]">{describe(current)}</span>
+          <input
+            ref={noteRef}
+            type="text"
+            value={current.reviewNote ?? ''}
+            onChange={e => onNoteChange(current.id, e.target.value)}
+            placeholder="Note for regeneration (N), e.g. keep the logo sharp"
+            className="flex-grow min-w-[12rem] bg-slate-900 border border-slate-700/50 rounded-lg px-2.5 py-1.5 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-amber-500/40"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] text-slate-500">
+          {SHORTCUTS.map(s => (
+            <span key={s.keys}><kbd className="font-mono text-slate-300 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 mr-1">{s.keys}</kbd>{s.label}</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationProgress, GenerationStage } from '../types';
+
+const STEPS: { stage: GenerationStage; label: string }[] = [
+  { stage: 'received', label: 'Request received' },
+  { stage: 'attempt', label: 'Model working' },
+  { stage: 'image', label: 'Image received' },
+  { stage: 'done', label: 'Done' },
+];
+
+// Seconds since `since`, ticking once a second
+const useElapsed = (since: number) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [since]);
+
+  return Math.max(0, Math.floor((now - since) / 1000));
+};
+
+interface StageProgressProps {
+  events: GenerationProgress[];
+}
+
+/**
+ * Where a streaming generation is: a row of stage dots, the model currently being
+ * tried and how long it has been at it, and any fallbacks along the way.
+ */
+export const StageProgress: React.FC<StageProgressProps> = ({ events }) => {
+  const latest = events[events.length - 1];
+  const current = [...events].reverse().find(e => e.stage === 'attempt');
+  const fallbacks = events.filter(e => e.stage === 'fallback');
+  // A fallback means the next model is about to start, so it counts as working
+  const reached = STEPS.findIndex(s => s.stage === (latest.stage === 'fallback' ? 'attempt' : latest.stage));
+  const seconds = useElapsed(current?.at ?? latest.at);
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-[10px] font-mono">
+      <div className="flex items-center gap-1">
+        {STEPS.map((step, i) => (
+          <React.Fragment key={step.stage}>
+            {i > 0 && <span className={`w-3 h-px ${i <= reached ? 'bg-amber-400' : 'bg-slate-600'}`} />}
+            <span
+              title={step.label}
+              className={`w-1.5 h-1.5 rounded-full ${i < reached ? 'bg-amber-400' : i === reached ? 'bg-amber-300 animate-pulse' : 'bg-slate-600'}`}
+            />
+          </React.Fragment>
+        ))}
+      </div>
+      <span className="text-slate-400">{STEPS[reached]?.label}</span>
+      {current && (
+        <span className="text-slate-300 max-w-[14rem] truncate" title={current.model}>
+          {current.model}{current.attempt && current.attempt > 1 ? ` · try ${current.attempt}` : ''}{latest.stage === 'attempt' ? ` · ${seconds}s` : ''}
+        </span>
+      )}
+      {fallbacks.map((f, i) => (
+        <span key={i} className="text-orange-300/80 max-w-[14rem] truncate" title={f.message}>
+          ↪ {f.fallbackFrom} failed, trying {f.model}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { AspectRatio, AspectRatioValue } from '../types';
+import { MAX_PROMPT_ITEMS, TextToImageRequest } from '../services/textToImage';
+
+interface TextToImageDialogProps {
+  isOpen: boolean;
+  defaultAspectRatio: AspectRatioValue;
+  costPerImage: number;
+  onClose: () => void;
+  onCreate: (request: TextToImageRequest) => void;
+}
+
+export const TextToImageDialog: React.FC<TextToImageDialogProps> = ({ isOpen, defaultAspectRatio, costPerImage, onClose, onCreate }) => {
+  const [prompt, setPrompt] = useState('');
+  const [count, setCount] = useState(1);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatioValue>(defaultAspectRatio);
+  const [generate, setGenerate] = useState(true);
+
+  if (!isOpen) return null;
+
+  const ratios: AspectRatioValue[] = (Object.values(AspectRatio) as AspectRatioValue[]).includes(defaultAspectRatio)
+    ? Object.values(AspectRatio)
+    : [defaultAspectRatio, ...Object.values(AspectRatio)];
+
+  const handleCreate = () => {
+    onCreate({ prompt: prompt.trim(), count, aspectRatio, generate });
+    setPrompt('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl p-8 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Generate from Prompt</h2>
+            <p className="text-sm text-slate-400 mt-1">Creates new images without a source. Each one can then be edited like an upload.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Prompt</label>
+            <textarea
+              rows={4}
+              autoFocus
+              placeholder="A ripe banana on a marble counter, soft morning light"
+              value={prompt}
+              onChange={e => setPrompt(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-banana-500/50"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Count</label>
+              <select
+                value={count}
+                onChange={e => setCount(Number(e.target.value))}
+                className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-banana-500/50"
+              >
+                {Array.from({ length: MAX_PROMPT_ITEMS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Aspect Ratio</label>
+              <select
+                value={aspectRatio}
+                onChange={e => setAspectRatio(e.target.value as AspectRatioValue)}
+                className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-banana-500/50"
+              >
+                {ratios.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={generate} onChange={e => setGenerate(e.target.checked)} className="accent-amber-500" />
+            Start generating right away
+          </label>
+        </div>
+
+        <div className="flex gap-3 pt-6 items-center">
+          <span className="text-xs font-mono text-slate-400 flex-grow">
+            {count} image{count === 1 ? '' : 's'} · ~${(count * costPerImage).toFixed(2)}
+          </span>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleCreate} disabled={!prompt.trim()}>Create</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { AspectRatio, PromptPreset } from '../types';
+import { VariantPrompt, VariantRequest } from '../services/variants';
+
+interface VariantDialogProps {
+  isOpen: boolean;
+  sourceName: string;
+  presets: PromptPreset[];
+  costPerVariant: number;
+  onClose: () => void;
+  onCreate: (request: VariantRequest) => void;
+}
+
+export const VariantDialog: React.FC<VariantDialogProps> = ({ isOpen, sourceName, presets, costPerVariant, onClose, onCreate }) => {
+  const [ratios, setRatios] = useState<AspectRatio[]>([]);
+  const [presetIds, setPresetIds] = useState<string[]>([]);
+  const [customPrompts, setCustomPrompts] = useState('');
+
+  if (!isOpen) return null;
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const prompts: VariantPrompt[] = [
+    ...presetIds.map(presetId => ({ presetId })),
+    ...customPrompts.split('\n').map(p => p.trim()).filter(Boolean).map(prompt => ({ prompt }))
+  ];
+  const count = Math.max(ratios.length, 1) * Math.max(prompts.length, 1);
+  const isEmpty = ratios.length === 0 && prompts.length === 0;
+
+  const handleCreate = () => {
+    onCreate({ aspectRatios: ratios, prompts });
+    setRatios([]);
+    setPresetIds([]);
+    setCustomPrompts('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-3xl p-8 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-white">Create Variants</h2>
+            <p className="text-sm text-slate-400 mt-1 truncate">From {sourceName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Aspect Ratios</label>
+            <div className="flex flex-wrap gap-1.5">
+              {Object.values(AspectRatio).map(r => (
+                <button
+                  key={r}
+                  onClick={() => setRatios(toggle(ratios, r))}
+                  className={`text-xs px-3 py-1.5 rounded-lg border font-mono transition-colors ${ratios.includes(r) ? 'bg-banana-500/20 border-banana-500/50 text-banana-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                >
+                  {r}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Presets</label>
+            <div className="flex flex-wrap gap-1.5">
+              {presets.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setPresetIds(toggle(presetIds, p.id))}
+                  className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${presetIds.includes(p.id) ? 'bg-banana-500/20 border-banana-500/50 text-banana-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Custom Prompts</label>
+            <textarea
+              rows={3}
+              placeholder="One prompt per line"
+              value={customPrompts}
+              onChange={e => setCustomPrompts(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-banana-500/50"
+            />
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Unselected dimensions keep the current global setting.
+          </p>
+        </div>
+
+        <div className="flex gap-3 pt-6 items-center">
+          <span className="text-xs font-mono text-slate-400 flex-grow">
+            {isEmpty ? 'Nothing selected' : `${count} variant${count === 1 ? '' : 's'} · ~$${(count * costPerVariant).toFixed(2)}`}
+          </span>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleCreate} disabled={isEmpty}>Run Variants</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { PassThrough } from 'stream';
+import { stream } from '@netlify/functions';
+import { chainErrorPayload, generationPayload, getImageProvider, InvalidRequestError, ModelChainError, parseGenerationRequest, runModelChain } from '../providers';
+
+/**
+ * Streaming variant of nano-banana. Takes the same request and answers with
+ * newline-delimited JSON events as the generation progresses:
+ * received, attempt (per model try), fallback, image, then done or error.
+ * Invalid requests are still rejected with a plain JSON error before streaming starts.
+ */
+export const handler = stream(async (event) => {
+    // Only allow POST
+    if (event.httpMethod !== 'POST') {
+        return { statusCode: 405, body: 'Method Not Allowed' };
+    }
+
+    let call;
+    try {
+        call = parseGenerationRequest(event.body);
+    } catch (error: any) {
+        const statusCode = error instanceof InvalidRequestError ? 400 : 500;
+        return { statusCode, body: JSON.stringify({ error: error.message || "Internal Server Error" }) };
+    }
+
+    const { apiKey, chain, request } = call;
+    const body = new PassThrough();
+    const send = (data: object) => body.write(`${JSON.stringify(data)}\n`);
+    send({ type: 'received' });
+
+    // Runs on after the response starts; every event is flushed as it happens
+    (async () => {
+        try {
+            const provider = getImageProvider(apiKey);
+            const result = await runModelChain(provider, chain, request, undefined, send);
+            // The image payload can take a while to arrive; announce it first
+            send({ type: 'image', model: result.model });
+            send({ type: 'done', ...generationPayload(result, chain) });
+        } catch (error: any) {
+            if (error instanceof ModelChainError) {
+                send({ type: 'error', status: error.statusCode, ...chainErrorPayload(error) });
+            } else {
+                console.error("Function Error:", error);
+                send({ type: 'error', status: 500, error: error.message || "Internal Server Error" });
+            }
+        }
+        body.end();
+    })();
+
+    return {
+        statusCode: 200,
+        headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+        body,
+    };
+});
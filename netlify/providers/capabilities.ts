@@ -0,0 +1,37 @@
+export type ImageSize = '1K' | '2K' | '4K';
+
+export const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+export interface ModelCapabilities {
+    aspectRatios: string[]; // Ratios accepted by imageConfig.aspectRatio; anything else goes into the prompt
+    imageSizes: ImageSize[]; // Values accepted by imageConfig.imageSize; empty when the model has a fixed size
+}
+
+const GEMINI_IMAGE_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+const MODEL_CAPABILITIES: { [model: string]: ModelCapabilities } = {
+    'gemini-3-pro-image-preview': { aspectRatios: GEMINI_IMAGE_RATIOS, imageSizes: IMAGE_SIZES },
+    'gemini-2.5-flash-image': { aspectRatios: GEMINI_IMAGE_RATIOS, imageSizes: [] },
+};
+
+// Unknown models get no structured config at all, so the prompt carries the ratio
+const NO_CAPABILITIES: ModelCapabilities = { aspectRatios: [], imageSizes: [] };
+
+export const getModelCapabilities = (model: string): ModelCapabilities => MODEL_CAPABILITIES[model] || NO_CAPABILITIES;
+
+export interface ImageConfig {
+    aspectRatio?: string;
+    imageSize?: ImageSize;
+}
+
+/**
+ * The parts of the request the model accepts as structured config. A ratio left
+ * out here has to be described in the prompt instead.
+ */
+export const resolveImageConfig = (model: string, aspectRatio: string, imageSize?: ImageSize): ImageConfig => {
+    const capabilities = getModelCapabilities(model);
+    return {
+        aspectRatio: capabilities.aspectRatios.includes(aspectRatio) ? aspectRatio : undefined,
+        imageSize: imageSize && capabilities.imageSizes.includes(imageSize) ? imageSize : undefined,
+    };
+};
@@ -0,0 +1,78 @@
+export type ErrorClass = 'auth' | 'quota' | 'safety' | 'bad_input' | 'model_unavailable' | 'transient';
+
+export type ErrorAction =
+    | 'stop' // give up: no other model will do better
+    | 'fallthrough' // skip to the next model in the chain
+    | 'retry'; // retry the same model with backoff, then fall through
+
+export interface ErrorPolicy {
+    action: ErrorAction;
+    statusCode: number;
+}
+
+export const ERROR_POLICIES: Record<ErrorClass, ErrorPolicy> = {
+    // The key is shared by every model, so another model will fail the same way
+    auth: { action: 'stop', statusCode: 401 },
+    // Quotas are tracked per model, a different one may still have headroom
+    quota: { action: 'fallthrough', statusCode: 429 },
+    // The same prompt/image will be blocked by every model
+    safety: { action: 'stop', statusCode: 422 },
+    bad_input: { action: 'stop', statusCode: 400 },
+    // Preview models are not enabled for every key
+    model_unavailable: { action: 'fallthrough', statusCode: 404 },
+    transient: { action: 'retry', statusCode: 503 },
+};
+
+/**
+ * Thrown by providers when the model answered but refused to produce an image.
+ */
+export class SafetyBlockError extends Error {
+    constructor(reason: string) {
+        super(`Blocked by safety filters: ${reason}`);
+        this.name = 'SafetyBlockError';
+    }
+}
+
+const statusFromMessage = (message: string): number | undefined => {
+    // The SDK reports HTTP failures as "got status: 429 Too Many Requests. {...}"
+    const match = message.match(/got status: (\d{3})/);
+    return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Extracts the server's retry hint, either the RetryInfo detail ("retryDelay": "37s")
+ * or the human readable "Please retry in 37.4s." sentence.
+ */
+export const parseRetryDelayMs = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+export const classifyError = (error: any): ErrorClass => {
+    if (error instanceof SafetyBlockError) return 'safety';
+
+    const message: string = error?.message || '';
+    const status = statusFromMessage(message);
+
+    if (status === 401 || /API key not valid|UNAUTHENTICATED/i.test(message)) {
+        return 'auth';
+    }
+    // A valid key can still be denied a single model, typically a preview one
+    if (status === 403 || /PERMISSION_DENIED/i.test(message)) {
+        return 'model_unavailable';
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+        return 'quota';
+    }
+    if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) {
+        return 'safety';
+    }
+    if (status === 404 || /NOT_FOUND/.test(message)) {
+        return 'model_unavailable';
+    }
+    if (status === 400 || status === 413 || /INVALID_ARGUMENT/i.test(message)) {
+        return 'bad_input';
+    }
+    // 5xx, timeouts, dropped connections and anything unrecognised
+    return 'transient';
+};
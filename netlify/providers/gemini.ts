@@ -0,0 +1,137 @@
+import { GoogleGenAI } from '@google/genai';
+import { ImageConfig, resolveImageConfig } from './capabilities';
+import { SafetyBlockError } from './errors';
+import { buildGenerationPrompt } from './prompt';
+import { ImageGenerationResult, ImageProvider } from './types';
+
+// Cheap text model used only to check that a key is accepted
+const VALIDATION_MODEL = 'gemini-1.5-flash';
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+// Fields shared by the SDK response and the raw REST JSON
+interface GenerateContentResponseLike {
+    candidates?: {
+        content?: { parts?: { inlineData?: { data?: string; mimeType?: string } }[] };
+        finishReason?: string;
+    }[];
+    promptFeedback?: { blockReason?: string };
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+const parseImageResponse = (
+    response: GenerateContentResponseLike,
+    model: string,
+    aspectRatioMode: ImageGenerationResult['aspectRatioMode']
+): ImageGenerationResult => {
+    const candidate = response.candidates?.[0];
+    const inlineData = candidate?.content?.parts?.find(p => p.inlineData?.data)?.inlineData;
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (!inlineData?.data && (blockReason || candidate?.finishReason === 'SAFETY' || candidate?.finishReason === 'PROHIBITED_CONTENT')) {
+        throw new SafetyBlockError(blockReason || candidate?.finishReason || 'unknown');
+    }
+
+    if (!inlineData?.data) {
+        throw new Error("No image generated in response");
+    }
+
+    const usage = response.usageMetadata;
+
+    return {
+        imageBase64: inlineData.data,
+        mimeType: inlineData.mimeType || 'image/png',
+        model,
+        usage: usage && {
+            promptTokens: usage.promptTokenCount || 0,
+            outputTokens: usage.candidatesTokenCount || 0,
+            totalTokens: usage.totalTokenCount || 0,
+        },
+        aspectRatioMode,
+    };
+};
+
+export const createGeminiProvider = (apiKey: string): ImageProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    /**
+     * The installed SDK drops generationConfig fields it doesn't know, imageConfig
+     * among them, so requests that need it go to the REST endpoint directly.
+     * Failures are reported in the SDK's "got status: ..." shape so classifyError still works.
+     */
+    const generateWithImageConfig = async (model: string, parts: object[], imageConfig: ImageConfig) => {
+        const response = await fetch(`${API_BASE}/models/${encodeURIComponent(model)}:generateContent`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+            body: JSON.stringify({
+                contents: [{ role: 'user', parts }],
+                generationConfig: { responseModalities: ['TEXT', 'IMAGE'], imageConfig },
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`got status: ${response.status} ${response.statusText}. ${await response.text()}`);
+        }
+        return await response.json() as GenerateContentResponseLike;
+    };
+
+    return {
+        name: 'gemini',
+
+        generateImage: async (request) => {
+            const { model, imageBase64, mimeType, aspectRatio, imageSize, maskBase64, references = [] } = request;
+            const imageConfig = resolveImageConfig(model, aspectRatio, imageSize);
+            const ratioInConfig = imageConfig.aspectRatio !== undefined;
+            const parts = [
+                ...(imageBase64 ? [{ inlineData: { data: imageBase64, mimeType } }] : []),
+                ...(maskBase64 ? [{ inlineData: { data: maskBase64, mimeType: 'image/png' } }] : []),
+                // Each reference is introduced by its label so the prompt can refer to it
+                ...references.flatMap((ref, i) => [
+                    { text: `Reference ${i + 1}: ${ref.label}` },
+                    { inlineData: { data: ref.imageBase64, mimeType: ref.mimeType } },
+                ]),
+                { text: buildGenerationPrompt(request, ratioInConfig) },
+            ];
+
+            if (imageConfig.aspectRatio || imageConfig.imageSize) {
+                const response = await generateWithImageConfig(model, parts, imageConfig);
+                return parseImageResponse(response, model, ratioInConfig ? 'config' : 'prompt');
+            }
+
+            const response = await ai.models.generateContent({ model, contents: { parts } });
+            return parseImageResponse(response, model, 'prompt');
+        },
+
+        validateKey: async () => {
+            try {
+                await ai.models.generateContent({
+                    model: VALIDATION_MODEL,
+                    contents: {
+                        parts: [{ text: 'test' }]
+                    }
+                });
+                return { valid: true };
+            } catch (error: any) {
+                console.error("Key Validation API Error:", error.message);
+
+                const msg = error.message || '';
+                // If error indicates invalid key, return false
+                if (msg.includes('API key not valid') || msg.includes('400') || msg.includes('403')) {
+                    return { valid: false, reason: msg };
+                }
+
+                // Otherwise the service is having issues, not the key
+                return { valid: true, warning: "Service unstable but key likely valid" };
+            }
+        },
+
+        listModels: async () => {
+            // The SDK has no list endpoint yet, so use the REST API directly
+            const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`);
+            if (!response.ok) {
+                throw new Error(`Could not list models: ${response.status}`);
+            }
+            const data = await response.json();
+            return (data.models || []).map((m: { name: string }) => m.name.replace(/^models\//, ''));
+        },
+    };
+};
@@ -0,0 +1,26 @@
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { ImageProvider } from './types';
+
+export * from './types';
+export * from './errors';
+export * from './model-chain';
+export * from './capabilities';
+export * from './request';
+
+const PROVIDERS: { [name: string]: (apiKey: string) => ImageProvider } = {
+    gemini: createGeminiProvider,
+    mock: createMockProvider,
+};
+
+/**
+ * Returns the provider selected by the IMAGE_PROVIDER env var (defaults to Gemini).
+ */
+export const getImageProvider = (apiKey: string): ImageProvider => {
+    const name = (process.env.IMAGE_PROVIDER || 'gemini').toLowerCase();
+    const factory = PROVIDERS[name];
+    if (!factory) {
+        throw new Error(`Unknown IMAGE_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+    return factory(apiKey);
+};
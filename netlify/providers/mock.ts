@@ -0,0 +1,171 @@
+import { deflateSync } from 'zlib';
+import { resolveImageConfig } from './capabilities';
+import { SafetyBlockError } from './errors';
+import { buildGenerationPrompt } from './prompt';
+import { ImageProvider } from './types';
+
+const MOCK_MODELS = ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'];
+
+// Long edge of the generated mock image in pixels
+const MOCK_LONG_EDGE = 256;
+
+// Gemini bills one input image as 258 tokens and one output image as 1290 tokens
+const MOCK_IMAGE_INPUT_TOKENS = 258;
+const MOCK_IMAGE_OUTPUT_TOKENS = 1290;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+const crc32 = (buf: Buffer) => {
+    let crc = 0xffffffff;
+    for (const byte of buf) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+};
+
+// FNV-1a, so the same input always yields the same image
+const hashString = (value: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const dimensionsForRatio = (aspectRatio: string) => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: MOCK_LONG_EDGE, height: MOCK_LONG_EDGE };
+    return w >= h
+        ? { width: MOCK_LONG_EDGE, height: Math.round(MOCK_LONG_EDGE * h / w) }
+        : { width: Math.round(MOCK_LONG_EDGE * w / h), height: MOCK_LONG_EDGE };
+};
+
+/**
+ * Renders a diagonal gradient PNG whose colours are derived from the request,
+ * sized to the requested aspect ratio.
+ */
+const renderMockPng = (seed: number, width: number, height: number) => {
+    const from = [(seed >>> 16) & 0xff, (seed >>> 8) & 0xff, seed & 0xff];
+    const to = from.map(c => 255 - c);
+
+    const raw = Buffer.alloc((width * 3 + 1) * height);
+    for (let y = 0; y < height; y++) {
+        const row = y * (width * 3 + 1);
+        raw[row] = 0; // filter: none
+        for (let x = 0; x < width; x++) {
+            const t = (x / width + y / height) / 2;
+            for (let c = 0; c < 3; c++) {
+                raw[row + 1 + x * 3 + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+            }
+        }
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // colour type: RGB
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+};
+
+const MOCK_FAILURES: { [status: string]: string } = {
+    '401': 'got status: 401 Unauthorized. API key not valid (mock)',
+    '403': 'got status: 403 Forbidden. PERMISSION_DENIED: model not enabled for this key (mock)',
+    '429': 'got status: 429 Too Many Requests. {"error":{"status":"RESOURCE_EXHAUSTED","details":[{"retryDelay":"5s"}]}} (mock)',
+    '400': 'got status: 400 Bad Request. INVALID_ARGUMENT (mock)',
+    '404': 'got status: 404 Not Found. NOT_FOUND (mock)',
+    '503': 'got status: 503 Service Unavailable. UNAVAILABLE (mock)',
+};
+
+/**
+ * Parses MOCK_FAIL_MODELS, e.g. "gemini-3-pro-image-preview=429,gemini-2.5-flash-image".
+ * A model without a status fails with 503; "safety" simulates a blocked prompt.
+ */
+const parseMockFailures = () => {
+    const failures: { [model: string]: string } = {};
+    for (const entry of (process.env.MOCK_FAIL_MODELS || '').split(',')) {
+        const [model, status = '503'] = entry.split('=').map(s => s.trim());
+        if (model) failures[model] = status;
+    }
+    return failures;
+};
+
+// Models in MOCK_RATIO_DRIFT_MODELS ignore a ratio given only as prompt text, like real models sometimes do
+const parseDriftModels = () => (process.env.MOCK_RATIO_DRIFT_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+
+/**
+ * Offline provider for development and CI. Never touches the network.
+ * Models listed in MOCK_FAIL_MODELS throw so fallback paths can be exercised.
+ */
+export const createMockProvider = (apiKey: string): ImageProvider => {
+    const failures = parseMockFailures();
+    const driftModels = parseDriftModels();
+
+    return {
+        name: 'mock',
+
+        generateImage: async (request) => {
+            const { model, imageBase64, aspectRatio, imageSize, maskBase64, references = [] } = request;
+            const failure = failures[model];
+            if (failure === 'safety') {
+                throw new SafetyBlockError('SAFETY (mock)');
+            }
+            if (failure) {
+                throw new Error(MOCK_FAILURES[failure] || `got status: ${failure} Mock failure for ${model}`);
+            }
+
+            const ratioInConfig = resolveImageConfig(model, aspectRatio, imageSize).aspectRatio !== undefined;
+            const effectivePrompt = buildGenerationPrompt(request, ratioInConfig);
+            const drifted = !ratioInConfig && driftModels.includes(model);
+
+            const { width, height } = dimensionsForRatio(drifted ? '1:1' : aspectRatio);
+            const png = renderMockPng(hashString([model, effectivePrompt, imageBase64, maskBase64, ...references.map(r => r.imageBase64)].join('|')), width, height);
+
+            const inputImages = (imageBase64 ? 1 : 0) + (maskBase64 ? 1 : 0) + references.length;
+            const promptTokens = MOCK_IMAGE_INPUT_TOKENS * inputImages + Math.ceil(effectivePrompt.length / 4);
+
+            return {
+                imageBase64: png.toString('base64'),
+                mimeType: 'image/png',
+                model,
+                usage: {
+                    promptTokens,
+                    outputTokens: MOCK_IMAGE_OUTPUT_TOKENS,
+                    totalTokens: promptTokens + MOCK_IMAGE_OUTPUT_TOKENS,
+                },
+                aspectRatioMode: ratioInConfig ? 'config' : 'prompt',
+            };
+        },
+
+        validateKey: async () => {
+            if (apiKey.includes('invalid')) {
+                return { valid: false, reason: 'API key not valid (mock)' };
+            }
+            return { valid: true };
+        },
+
+        listModels: async () => [...MOCK_MODELS],
+    };
+};
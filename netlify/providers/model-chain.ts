@@ -0,0 +1,125 @@
+import { classifyError, ERROR_POLICIES, ErrorClass, parseRetryDelayMs } from './errors';
+import { ImageGenerationRequest, ImageGenerationResult, ImageProvider } from './types';
+
+export const DEFAULT_MODEL_CHAIN = [
+    'gemini-3-pro-image-preview', // Primary: Gemini 3 Pro Image Preview
+    'gemini-2.5-flash-image', // Fallback: Gemini 2.5 Flash Image (more stable/faster)
+];
+
+export interface ModelAttempt {
+    model: string;
+    attempt: number;
+    errorClass: ErrorClass;
+    message: string;
+    retryAfterMs?: number;
+}
+
+// Reported while the chain runs, so streaming callers can show which model is being tried
+export type ChainProgress =
+    | { type: 'attempt'; model: string; attempt: number }
+    | { type: 'fallback'; from: string; to: string; errorClass: ErrorClass; message: string };
+
+export interface ModelChainOptions {
+    maxRetries: number; // extra attempts per model for transient errors
+    baseDelayMs: number;
+}
+
+export class ModelChainError extends Error {
+    readonly errorClass: ErrorClass;
+    readonly statusCode: number;
+    readonly attempts: ModelAttempt[];
+    readonly retryAfterMs?: number; // Soonest time any model in the chain said it may accept requests again
+
+    constructor(errorClass: ErrorClass, attempts: ModelAttempt[]) {
+        const summary = attempts.map(a => `${a.model} (${a.errorClass}): ${a.message}`).join(' | ');
+        super(attempts.length > 1 ? `All models failed. ${summary}` : summary);
+        this.name = 'ModelChainError';
+        this.errorClass = errorClass;
+        this.statusCode = ERROR_POLICIES[errorClass].statusCode;
+        this.attempts = attempts;
+
+        const hints = attempts.map(a => a.retryAfterMs).filter((ms): ms is number => ms !== undefined);
+        this.retryAfterMs = hints.length > 0 ? Math.min(...hints) : undefined;
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Resolves the model chain: the request's own list wins, then IMAGE_MODEL_CHAIN, then the default.
+ */
+export const resolveModelChain = (requested?: unknown): string[] => {
+    if (Array.isArray(requested) && requested.length > 0) {
+        if (!requested.every(m => typeof m === 'string' && m.trim())) {
+            throw new Error('models must be a list of model names');
+        }
+        return requested.map(m => m.trim());
+    }
+
+    const fromEnv = (process.env.IMAGE_MODEL_CHAIN || '').split(',').map(m => m.trim()).filter(Boolean);
+    return fromEnv.length > 0 ? fromEnv : [...DEFAULT_MODEL_CHAIN];
+};
+
+/**
+ * Reads a non-negative integer setting. Anything else (empty, NaN, negative, fractional)
+ * falls back to the default, so a typo can't leave the chain with zero attempts.
+ */
+const readCountEnv = (name: string, fallback: number): number => {
+    const raw = process.env[name]?.trim();
+    if (!raw) return fallback;
+    const value = Number(raw);
+    if (Number.isInteger(value) && value >= 0) return value;
+    console.warn(`Ignoring ${name}="${raw}": expected a non-negative integer, using ${fallback}`);
+    return fallback;
+};
+
+export const getModelChainOptions = (): ModelChainOptions => ({
+    maxRetries: readCountEnv('IMAGE_MAX_RETRIES', 1),
+    baseDelayMs: readCountEnv('IMAGE_RETRY_DELAY_MS', 1000),
+});
+
+/**
+ * Walks the chain in order. Each failure is classified and its policy decides
+ * whether to retry the same model, move on to the next one or stop outright.
+ */
+export const runModelChain = async (
+    provider: ImageProvider,
+    chain: string[],
+    request: Omit<ImageGenerationRequest, 'model'>,
+    options: ModelChainOptions = getModelChainOptions(),
+    onProgress?: (progress: ChainProgress) => void
+): Promise<ImageGenerationResult & { attempts: ModelAttempt[] }> => {
+    const attempts: ModelAttempt[] = [];
+    let lastClass: ErrorClass = 'transient';
+
+    for (const [index, model] of chain.entries()) {
+        for (let attempt = 1; attempt <= options.maxRetries + 1; attempt++) {
+            try {
+                console.log(`Attempting generation with ${model} (${provider.name}), attempt ${attempt}...`);
+                onProgress?.({ type: 'attempt', model, attempt });
+                const result = await provider.generateImage({ ...request, model });
+                return { ...result, attempts };
+            } catch (error: any) {
+                lastClass = classifyError(error);
+                const { action } = ERROR_POLICIES[lastClass];
+                const message = error.message || 'Unknown error';
+                attempts.push({ model, attempt, errorClass: lastClass, message, retryAfterMs: parseRetryDelayMs(message) });
+                console.warn(`Model ${model} failed (${lastClass}):`, error.message);
+
+                if (action === 'stop') {
+                    throw new ModelChainError(lastClass, attempts);
+                }
+                if (action === 'fallthrough' || attempt > options.maxRetries) {
+                    if (index < chain.length - 1) {
+                        onProgress?.({ type: 'fallback', from: model, to: chain[index + 1], errorClass: lastClass, message });
+                    }
+                    break;
+                }
+                // Exponential backoff: 1x, 2x, 4x...
+                await sleep(options.baseDelayMs * 2 ** (attempt - 1));
+            }
+        }
+    }
+
+    throw new ModelChainError(lastClass, attempts);
+};
@@ -0,0 +1,56 @@
+import { ImageGenerationRequest } from './types';
+
+const ASPECT_RATIO_DESCRIPTIONS: { [key: string]: string } = {
+    '1:1': 'square format (1:1 aspect ratio)',
+    '3:4': 'portrait format (3:4 aspect ratio)',
+    '4:3': 'landscape format (4:3 aspect ratio)',
+    '9:16': 'vertical mobile format (9:16 aspect ratio)',
+    '16:9': 'widescreen landscape format (16:9 aspect ratio)',
+    '21:9': 'ultrawide cinematic format (21:9 aspect ratio)',
+    '2:3': 'tall portrait format (2:3 aspect ratio)',
+    '4:5': 'social media portrait format (4:5 aspect ratio)',
+    '1.91:1': 'wide landscape ad format (1.91:1 aspect ratio)'
+};
+
+const MASK_INSTRUCTION = 'The second image is a mask: change only the area that is white in the mask and keep everything in the black area exactly as it is in the first image.';
+
+const describeReferences = (labels: string[], hasSource: boolean) => {
+    const list = labels.map((l, i) => `${i + 1}. ${l}`).join(', ');
+    return hasSource
+        ? `The image to edit comes first. The labelled reference images after it (${list}) are only there to guide the result; combine them as the instructions say.`
+        : `The labelled reference images (${list}) are only there to guide the result; combine them as the instructions say.`;
+};
+
+// Text-to-image: there is no source image, so the prompt is the whole brief
+const describeTextToImage = (prompt: string, aspectRatio: string, ratioInConfig: boolean) => {
+    const format = ratioInConfig ? '' : ` in ${ASPECT_RATIO_DESCRIPTIONS[aspectRatio] || `${aspectRatio} aspect ratio`}`;
+    return `Generate a new professional-quality image${format}. ${prompt.trim()}`;
+};
+
+/**
+ * Builds the text sent to the model. When the ratio is already passed as structured
+ * config (`ratioInConfig`) the prompt leaves it out instead of repeating it in prose.
+ * Instructions for reading a mask or reference images come first.
+ */
+export const buildGenerationPrompt = (
+    { prompt, aspectRatio, imageBase64, maskBase64, references = [] }: Pick<ImageGenerationRequest, 'prompt' | 'aspectRatio' | 'imageBase64' | 'maskBase64' | 'references'>,
+    ratioInConfig: boolean
+): string => [
+    maskBase64 ? MASK_INSTRUCTION : '',
+    references.length > 0 ? describeReferences(references.map(r => r.label), !!imageBase64) : '',
+    imageBase64 ? describeGeneration(prompt, aspectRatio, ratioInConfig) : describeTextToImage(prompt, aspectRatio, ratioInConfig),
+].filter(Boolean).join(' ');
+
+const describeGeneration = (prompt: string, aspectRatio: string, ratioInConfig: boolean): string => {
+    if (ratioInConfig) {
+        return prompt && prompt.trim()
+            ? `Generate a new professional-quality image based on this image. ${prompt}`
+            : 'Generate a new professional-quality image based on this image. Maintain the subject and composition but adapt it perfectly to the new format. Enhance lighting, colors, and overall quality while ensuring the image fills the entire frame.';
+    }
+
+    const aspectRatioDesc = ASPECT_RATIO_DESCRIPTIONS[aspectRatio] || `${aspectRatio} aspect ratio`;
+    if (prompt && prompt.trim()) {
+        return `Generate a new professional-quality image in ${aspectRatioDesc} based on this image. ${prompt}`;
+    }
+    return `Generate a new professional-quality image in ${aspectRatioDesc} based on this image. Maintain the subject and composition but adapt it perfectly to the new ${aspectRatioDesc} format. Enhance lighting, colors, and overall quality while ensuring the image fills the entire ${aspectRatioDesc} frame.`;
+};
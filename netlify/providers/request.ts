@@ -0,0 +1,126 @@
+import { IMAGE_SIZES } from './capabilities';
+import { ModelAttempt, ModelChainError, resolveModelChain } from './model-chain';
+import { ImageGenerationRequest, ImageGenerationResult, ReferenceImage } from './types';
+
+// Gemini accepts more, but every extra image adds input tokens and request size
+const MAX_REFERENCES = 6;
+
+// Source image types the models accept; the client converts anything else before sending
+const SUPPORTED_INPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+/**
+ * A generation request that failed validation. The message is meant for the user.
+ */
+export class InvalidRequestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidRequestError';
+    }
+}
+
+export interface GenerationCall {
+    apiKey: string;
+    chain: string[];
+    request: Omit<ImageGenerationRequest, 'model'>;
+}
+
+/**
+ * Validates the optional ordered list of labelled reference images.
+ */
+const parseReferences = (references: unknown): ReferenceImage[] => {
+    if (references === undefined || references === null) return [];
+    if (!Array.isArray(references)) throw new InvalidRequestError('references must be a list');
+    if (references.length > MAX_REFERENCES) throw new InvalidRequestError(`At most ${MAX_REFERENCES} reference images are supported`);
+
+    return references.map((ref, i) => {
+        if (!ref || typeof ref.imageBase64 !== 'string' || !ref.imageBase64) {
+            throw new InvalidRequestError(`Reference ${i + 1} is missing image data`);
+        }
+        if (ref.mimeType !== undefined && !SUPPORTED_INPUT_TYPES.includes(ref.mimeType)) {
+            throw new InvalidRequestError(`Reference ${i + 1} has an unsupported type: ${ref.mimeType}`);
+        }
+        return {
+            label: typeof ref.label === 'string' && ref.label.trim() ? ref.label.trim() : `reference ${i + 1}`,
+            imageBase64: ref.imageBase64,
+            mimeType: ref.mimeType || 'image/jpeg',
+        };
+    });
+};
+
+/**
+ * Parses and validates the body shared by the nano-banana functions.
+ * Throws InvalidRequestError for anything the client should fix.
+ */
+export const parseGenerationRequest = (body: string | null | undefined): GenerationCall => {
+    const { apiKey, imageBase64, mimeType, maskBase64, references, prompt, aspectRatio, imageSize, models } = JSON.parse(body || '{}');
+
+    if (!apiKey) {
+        throw new InvalidRequestError('Missing API Key');
+    }
+
+    // Without a source image this is text-to-image, which needs a prompt to work from
+    if (!imageBase64 && !(typeof prompt === 'string' && prompt.trim())) {
+        throw new InvalidRequestError('Missing Image Data or prompt');
+    }
+
+    // Older clients don't send a type; their uploads were always JPEG-labelled
+    if (mimeType !== undefined && !SUPPORTED_INPUT_TYPES.includes(mimeType)) {
+        throw new InvalidRequestError(`Unsupported image type: ${mimeType}. Expected one of: ${SUPPORTED_INPUT_TYPES.join(', ')}`);
+    }
+
+    if (maskBase64 && !imageBase64) {
+        throw new InvalidRequestError('A mask needs a source image');
+    }
+
+    // Any positive W:H is accepted; ratios a model cannot take as config are described in the prompt
+    if (aspectRatio !== undefined && !/^\d+(\.\d+)?:\d+(\.\d+)?$/.test(aspectRatio)) {
+        throw new InvalidRequestError(`Invalid aspect ratio: ${aspectRatio}`);
+    }
+
+    if (imageSize !== undefined && !IMAGE_SIZES.includes(imageSize)) {
+        throw new InvalidRequestError(`Invalid image size: ${imageSize}. Expected one of: ${IMAGE_SIZES.join(', ')}`);
+    }
+
+    const referenceImages = parseReferences(references);
+
+    let chain: string[];
+    try {
+        chain = resolveModelChain(models);
+    } catch (chainError: any) {
+        throw new InvalidRequestError(chainError.message);
+    }
+
+    return {
+        apiKey,
+        chain,
+        request: {
+            imageBase64: imageBase64 || undefined,
+            mimeType: mimeType || 'image/jpeg',
+            prompt: prompt || '',
+            aspectRatio: aspectRatio || '1:1',
+            imageSize,
+            maskBase64: maskBase64 || undefined,
+            references: referenceImages,
+        },
+    };
+};
+
+/**
+ * Payload of a successful generation, the same for the JSON and streaming functions.
+ */
+export const generationPayload = (result: ImageGenerationResult & { attempts: ModelAttempt[] }, chain: string[]) => ({
+    image: result.imageBase64,
+    mimeType: result.mimeType,
+    model: result.model,
+    fallbackUsed: result.model !== chain[0],
+    usage: result.usage,
+    aspectRatioMode: result.aspectRatioMode,
+    attempts: result.attempts,
+});
+
+export const chainErrorPayload = (error: ModelChainError) => ({
+    error: error.message,
+    errorClass: error.errorClass,
+    retryAfterMs: error.retryAfterMs,
+    attempts: error.attempts,
+});
@@ -0,0 +1,49 @@
+import { ImageSize } from './capabilities';
+
+export interface ReferenceImage {
+    label: string; // e.g. "brand style frame" or "product cutout"
+    imageBase64: string;
+    mimeType: string;
+}
+
+export interface ImageGenerationRequest {
+    model: string;
+    imageBase64?: string; // Source to edit; omitted for text-to-image
+    mimeType: string;
+    prompt: string; // The user's prompt; providers add the aspect-ratio instructions themselves
+    aspectRatio: string;
+    imageSize?: ImageSize;
+    maskBase64?: string; // PNG, white where the model may edit and black where it must not
+    references?: ReferenceImage[]; // Sent after the source image, in order
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+export interface ImageGenerationResult {
+    imageBase64: string;
+    mimeType: string;
+    model: string;
+    usage?: TokenUsage;
+    aspectRatioMode: 'config' | 'prompt'; // Whether the ratio went in as structured config or as prompt text
+}
+
+export interface KeyValidationResult {
+    valid: boolean;
+    reason?: string;
+    warning?: string;
+}
+
+/**
+ * Backend used by the Netlify functions to talk to an image model.
+ * Implementations must throw on failure so callers can fall back to another model.
+ */
+export interface ImageProvider {
+    readonly name: string;
+    generateImage: (request: ImageGenerationRequest) => Promise<ImageGenerationResult>;
+    validateKey: () => Promise<KeyValidationResult>;
+    listModels: () => Promise<string[]>;
+}
@@ -0,0 +1,73 @@
+import { AspectRatio, AspectRatioValue, OutputSize } from '../types';
+
+export interface PlatformTarget {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+// Common publishing targets; picking one sets both the ratio and the exact output size
+export const PLATFORM_TARGETS: PlatformTarget[] = [
+  { id: 'ig-square', name: 'Instagram square', width: 1080, height: 1080 },
+  { id: 'ig-portrait', name: 'Instagram portrait', width: 1080, height: 1350 },
+  { id: 'ig-story', name: 'Instagram / TikTok story', width: 1080, height: 1920 },
+  { id: 'fb-link-ad', name: 'Facebook link ad', width: 1200, height: 628 },
+  { id: 'x-post', name: 'X post', width: 1600, height: 900 },
+  { id: 'yt-thumbnail', name: 'YouTube thumbnail', width: 1280, height: 720 },
+  { id: 'pinterest-pin', name: 'Pinterest pin', width: 1000, height: 1500 },
+  { id: 'ultrawide-banner', name: 'Ultrawide banner', width: 2520, height: 1080 },
+];
+
+const RATIO_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)\s*$/;
+
+// Relative difference under which two ratios count as the same (1.91:1 vs 1200x628)
+const RATIO_TOLERANCE = 0.01;
+
+// Models snap to their own size grid (16:9 comes back as 1344×768), so a returned image
+// only counts as the wrong ratio beyond this
+export const MODEL_RATIO_TOLERANCE = 0.03;
+
+export const MAX_OUTPUT_EDGE = 8192;
+
+/**
+ * Parses "W:H" into its two parts. Returns null for anything that isn't two positive numbers.
+ */
+export const parseRatio = (value: string): OutputSize | null => {
+  const match = RATIO_PATTERN.exec(value);
+  if (!match) return null;
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? { width, height } : null;
+};
+
+export const isValidRatio = (value: string): value is AspectRatioValue => parseRatio(value) !== null;
+
+const ratioOf = (value: string) => {
+  const parsed = parseRatio(value);
+  return parsed ? parsed.width / parsed.height : NaN;
+};
+
+export const sizeMatchesRatio = (size: OutputSize, ratio: string, tolerance = RATIO_TOLERANCE): boolean =>
+  Math.abs(size.width / size.height / ratioOf(ratio) - 1) < tolerance;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Ratio for a pixel size, preferring a named ratio when one is close enough
+ * (1200x628 → "1.91:1") and falling back to the reduced fraction.
+ */
+export const ratioFromSize = (size: OutputSize, tolerance = RATIO_TOLERANCE): AspectRatioValue => {
+  const known = Object.values(AspectRatio).find(r => sizeMatchesRatio(size, r, tolerance));
+  if (known) return known;
+  const d = gcd(size.width, size.height);
+  return `${size.width / d}:${size.height / d}`;
+};
+
+export const isValidOutputSize = (size: OutputSize): boolean =>
+  [size.width, size.height].every(n => Number.isInteger(n) && n > 0 && n <= MAX_OUTPUT_EDGE);
+
+export const findPlatformTarget = (size?: OutputSize): PlatformTarget | undefined =>
+  size && PLATFORM_TARGETS.find(t => t.width === size.width && t.height === size.height);
+
+export const formatSize = (size: OutputSize) => `${size.width}×${size.height}`;
@@ -0,0 +1,110 @@
+import { ConversionMode, ExportFormat, GenerationSettings, OutputSize } from '../types';
+import { parseRatio } from './aspectRatios';
+import { containRect, coverCropRect, createCanvas, EXPORT_QUALITY, loadImage } from './imageOps';
+
+export interface ConversionModeInfo {
+  id: ConversionMode;
+  label: string;
+  paid: boolean; // Whether the mode calls the model
+}
+
+export const CONVERSION_MODES: ConversionModeInfo[] = [
+  { id: 'ai', label: 'AI reframe', paid: true },
+  { id: 'crop', label: 'Center crop', paid: false },
+  { id: 'blur-letterbox', label: 'Blurred letterbox', paid: false },
+  { id: 'pad', label: 'Solid padding', paid: false },
+  { id: 'pad-outpaint', label: 'Pad + AI outpaint', paid: true },
+];
+
+export const DEFAULT_PAD_COLOR = '#ffffff';
+
+// The blurred backdrop is drawn from a copy this many times smaller, then scaled back up
+const BLUR_DOWNSCALE = 24;
+
+export const OUTPAINT_PROMPT = 'The centre of this image is a photo surrounded by flat padding. Replace only the padding with a seamless, natural continuation of the scene. Keep the original photo area exactly as it is.';
+
+export const getConversionMode = (settings: GenerationSettings): ConversionMode => settings.conversionMode ?? 'ai';
+
+export const isLocalMode = (mode: ConversionMode) => !CONVERSION_MODES.find(m => m.id === mode)?.paid;
+
+/**
+ * Canvas size for a local conversion: the exact output size when one is set, otherwise
+ * the largest frame of the target ratio inside the source (crop) or the smallest one
+ * around it (padding modes), so no source pixels are upscaled.
+ */
+export const conversionCanvasSize = (source: OutputSize, settings: GenerationSettings): OutputSize => {
+  if (settings.outputSize) return settings.outputSize;
+  const ratio = parseRatio(settings.aspectRatio);
+  if (!ratio) return source;
+
+  const target = ratio.width / ratio.height;
+  const sourceRatio = source.width / source.height;
+  const inside = getConversionMode(settings) === 'crop';
+  const widthBound = inside ? sourceRatio > target : sourceRatio < target;
+
+  return widthBound
+    ? { width: Math.round(source.height * target), height: source.height }
+    : { width: source.width, height: Math.round(source.width / target) };
+};
+
+export interface LocalConversion {
+  canvas: HTMLCanvasElement;
+  imageRect: { dx: number; dy: number; dw: number; dh: number }; // Where the untouched source sits
+}
+
+/**
+ * Renders the source into the target frame without calling the model.
+ * 'pad-outpaint' renders the padded input that is then sent for outpainting.
+ */
+export const renderLocalConversion = async (imageUrl: string, settings: GenerationSettings): Promise<LocalConversion> => {
+  const img = await loadImage(imageUrl);
+  const source = { width: img.naturalWidth, height: img.naturalHeight };
+  const size = conversionCanvasSize(source, settings);
+  const { canvas, ctx } = createCanvas(size);
+  const mode = getConversionMode(settings);
+
+  if (mode === 'crop' || mode === 'ai') {
+    const { sx, sy, sw, sh } = coverCropRect(source, size);
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, size.width, size.height);
+    return { canvas, imageRect: { dx: 0, dy: 0, dw: size.width, dh: size.height } };
+  }
+
+  if (mode === 'blur-letterbox') {
+    // Cheap, browser-independent blur: cover-fill a tiny copy and let smoothing upscale it
+    const small = createCanvas({
+      width: Math.max(1, Math.round(size.width / BLUR_DOWNSCALE)),
+      height: Math.max(1, Math.round(size.height / BLUR_DOWNSCALE))
+    });
+    const cover = coverCropRect(source, size);
+    small.ctx.drawImage(img, cover.sx, cover.sy, cover.sw, cover.sh, 0, 0, small.canvas.width, small.canvas.height);
+    ctx.drawImage(small.canvas, 0, 0, size.width, size.height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.fillRect(0, 0, size.width, size.height);
+  } else {
+    ctx.fillStyle = settings.padColor || DEFAULT_PAD_COLOR;
+    ctx.fillRect(0, 0, size.width, size.height);
+  }
+
+  const imageRect = containRect(source, size);
+  ctx.drawImage(img, imageRect.dx, imageRect.dy, imageRect.dw, imageRect.dh);
+  return { canvas, imageRect };
+};
+
+export const canvasToDataUrl = (canvas: HTMLCanvasElement, format: ExportFormat) => canvas.toDataURL(format, EXPORT_QUALITY);
+
+/**
+ * Lays the outpainted result under the padded input so only the padding comes from
+ * the model and the original pixels survive untouched.
+ */
+export const compositeOutpaint = async (resultUrl: string, padded: LocalConversion): Promise<string> => {
+  const result = await loadImage(resultUrl);
+  const { canvas: padCanvas, imageRect } = padded;
+  const size = { width: padCanvas.width, height: padCanvas.height };
+  const { canvas, ctx } = createCanvas(size);
+
+  const { sx, sy, sw, sh } = coverCropRect({ width: result.naturalWidth, height: result.naturalHeight }, size);
+  ctx.drawImage(result, sx, sy, sw, sh, 0, 0, size.width, size.height);
+  const { dx, dy, dw, dh } = imageRect;
+  ctx.drawImage(padCanvas, dx, dy, dw, dh, dx, dy, dw, dh);
+  return canvas.toDataURL('image/png');
+};
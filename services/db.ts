@@ -0,0 +1,87 @@
+/**
+ * Thin promise wrapper around the studio's IndexedDB database.
+ * Every store is declared here so version upgrades live in one place.
+ */
+
+const DB_NAME = 'nano-banana-studio';
+const DB_VERSION = 3;
+
+export const STORES = {
+  spend: 'spend',
+  items: 'items',
+  blobs: 'blobs',
+  meta: 'meta',
+  presets: 'presets',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.spend)) {
+        const spend = db.createObjectStore(STORES.spend, { keyPath: 'id' });
+        spend.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(STORES.items)) {
+        db.createObjectStore(STORES.items, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.blobs)) {
+        db.createObjectStore(STORES.blobs);
+      }
+      if (!db.objectStoreNames.contains(STORES.meta)) {
+        db.createObjectStore(STORES.meta);
+      }
+      if (!db.objectStoreNames.contains(STORES.presets)) {
+        db.createObjectStore(STORES.presets, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(run(tx.objectStore(storeName)));
+};
+
+/**
+ * Runs several operations in one transaction and resolves once it commits.
+ */
+export const withTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  run(tx);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
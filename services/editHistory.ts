@@ -0,0 +1,71 @@
+import { EditStep, ImageItem } from '../types';
+
+export const findStep = (item: ImageItem, stepId: string | undefined) =>
+  stepId ? item.history?.find(s => s.id === stepId) : undefined;
+
+/**
+ * Steps from the first generation down to `stepId`, following parent links.
+ */
+export const stepLineage = (item: ImageItem, stepId: string): EditStep[] => {
+  const lineage: EditStep[] = [];
+  for (let step = findStep(item, stepId); step; step = findStep(item, step.parentStepId)) {
+    lineage.unshift(step);
+  }
+  return lineage;
+};
+
+// 1-based position in the timeline, used as the step's label
+export const stepNumber = (item: ImageItem, stepId: string) =>
+  (item.history?.findIndex(s => s.id === stepId) ?? -1) + 1;
+
+/**
+ * Prompt for a follow-up edit. Earlier instructions are listed so the model keeps
+ * them instead of drifting back towards the original.
+ */
+export const buildFollowUpPrompt = (lineage: EditStep[], prompt: string) => {
+  const earlier = lineage.map(s => s.prompt.trim()).filter(Boolean);
+  const context = earlier.length > 0
+    ? `This image is the result of earlier edits (${earlier.map((p, i) => `${i + 1}. ${p}`).join('; ')}). Keep those changes. `
+    : '';
+  return `${context}Now apply this change only: ${prompt.trim()}`;
+};
+
+export const createEditStep = (fields: Omit<EditStep, 'id' | 'createdAt'>): EditStep => ({
+  ...fields,
+  id: Math.random().toString(36).substr(2, 9),
+  createdAt: Date.now()
+});
+
+const showStep = (step: EditStep): Partial<ImageItem> => ({
+  activeStepId: step.id,
+  resultUrl: step.resultUrl,
+  resultMetadata: step.resultMetadata,
+  generation: step.generation
+});
+
+/**
+ * Patch that records a new result and makes it the visible one.
+ */
+export const appendStep = (item: ImageItem, step: EditStep): Partial<ImageItem> => ({
+  history: [...(item.history ?? []), step],
+  ...showStep(step)
+});
+
+/**
+ * Patch that reverts the card to an earlier step. Nothing is deleted; refining
+ * from here starts a new branch next to the existing one.
+ */
+export const selectStep = (item: ImageItem, stepId: string): Partial<ImageItem> => {
+  const step = findStep(item, stepId);
+  if (!step) return {};
+  return { ...showStep(step), status: 'success', pendingEdit: undefined, errorMessage: undefined };
+};
+
+/**
+ * Status an item goes back to when its job is cancelled: a dropped follow-up
+ * edit leaves the previous result in place.
+ */
+export const cancelledPatch = (item: ImageItem | undefined): Partial<ImageItem> =>
+  item?.pendingEdit && item.resultUrl
+    ? { status: 'success', pendingEdit: undefined, retry: undefined }
+    : { status: 'idle', retry: undefined };
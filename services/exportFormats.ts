@@ -0,0 +1,25 @@
+import { EncoderOptions, ExportFormat, GenerationSettings } from '../types';
+import { EXPORT_QUALITY } from './imageOps';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  lossy: boolean; // Has a quality setting
+  losslessOption: boolean; // Can also encode losslessly
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'image/jpeg', label: 'JPEG', lossy: true, losslessOption: false },
+  { id: 'image/png', label: 'PNG', lossy: false, losslessOption: false },
+  { id: 'image/webp', label: 'WebP', lossy: true, losslessOption: true },
+  { id: 'image/avif', label: 'AVIF', lossy: true, losslessOption: true },
+];
+
+export const getFormatInfo = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.id === format) ?? EXPORT_FORMATS[0];
+
+// Quality and lossless choice a result in `format` is encoded with
+export const getEncoderOptions = (settings: GenerationSettings, format: ExportFormat): EncoderOptions => ({
+  quality: EXPORT_QUALITY,
+  lossless: false,
+  ...settings.encoding?.[format]
+});
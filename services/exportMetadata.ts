@@ -0,0 +1,225 @@
+import { ExifGroup, ExportOptions, ImageItem } from '../types';
+import { readSourceMetadata, SourceMetadata, writeMetadata } from './imageContainers';
+import { stepLineage } from './editHistory';
+import { name as packageName, version as TOOL_VERSION } from '../package.json';
+
+export const TOOL_NAME = packageName.split('-').map(w => w[0].toUpperCase() + w.slice(1)).join(' ');
+
+export const EXIF_GROUPS: { id: ExifGroup; label: string }[] = [
+  { id: 'camera', label: 'Camera & lens' },
+  { id: 'date', label: 'Capture date' },
+  { id: 'copyright', label: 'Artist & copyright' },
+  { id: 'location', label: 'GPS location' },
+];
+
+const EXIF_POINTER = 0x8769;
+const GPS_POINTER = 0x8825;
+
+// Only descriptive tags are copied. Orientation, dimensions, thumbnails and maker
+// notes describe the original pixels, not the result.
+const GROUP_TAGS: Record<ExifGroup, { root?: number[]; exif?: number[]; gps?: boolean }> = {
+  camera: {
+    root: [0x010f, 0x0110], // Make, Model
+    // ExposureTime, FNumber, ExposureProgram, ISO, Flash, FocalLength, FocalLengthIn35mmFilm, LensMake, LensModel
+    exif: [0x829a, 0x829d, 0x8822, 0x8827, 0x9209, 0x920a, 0xa405, 0xa433, 0xa434]
+  },
+  date: {
+    root: [0x0132], // DateTime
+    exif: [0x9003, 0x9004, 0x9010, 0x9011, 0x9012] // DateTimeOriginal, DateTimeDigitized, OffsetTime*
+  },
+  copyright: { root: [0x013b, 0x8298] }, // Artist, Copyright
+  location: { gps: true }
+};
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array; // Raw bytes in the source's byte order
+}
+
+const readIfd = (tiff: Uint8Array, view: DataView, offset: number, little: boolean): IfdEntry[] => {
+  if (!offset || offset + 2 > tiff.length) return [];
+  const entries: IfdEntry[] = [];
+  for (let i = 0, count = view.getUint16(offset, little); i < count; i++) {
+    const at = offset + 2 + i * 12;
+    if (at + 12 > tiff.length) break;
+    const type = view.getUint16(at + 2, little);
+    const valueCount = view.getUint32(at + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    const start = size > 4 ? view.getUint32(at + 8, little) : at + 8;
+    if (!size || start + size > tiff.length) continue;
+    entries.push({ tag: view.getUint16(at, little), type, count: valueCount, value: tiff.slice(start, start + size) });
+  }
+  return entries;
+};
+
+// Entry table, next-IFD link, then values too big to sit inline (word-aligned)
+const ifdSize = (entries: IfdEntry[]) =>
+  6 + entries.length * 12 + entries.reduce((sum, e) => sum + (e.value.length > 4 ? e.value.length + (e.value.length % 2) : 0), 0);
+
+const writeIfd = (out: Uint8Array, view: DataView, offset: number, entries: IfdEntry[], little: boolean) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let data = offset + 6 + sorted.length * 12;
+  view.setUint16(offset, sorted.length, little);
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    view.setUint16(at, entry.tag, little);
+    view.setUint16(at + 2, entry.type, little);
+    view.setUint32(at + 4, entry.count, little);
+    if (entry.value.length > 4) {
+      view.setUint32(at + 8, data, little);
+      out.set(entry.value, data);
+      data += entry.value.length + (entry.value.length % 2);
+    } else {
+      out.set(entry.value, at + 8);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, little); // No next IFD, so no thumbnail
+};
+
+const longEntry = (tag: number, value: number, little: boolean): IfdEntry => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, little);
+  return { tag, type: 4, count: 1, value: bytes };
+};
+
+/**
+ * Rebuilds an EXIF block with only the tags of the chosen groups, keeping the
+ * source's byte order. Returns undefined when nothing is left to copy.
+ */
+export const filterExif = (tiff: Uint8Array, groups: ExifGroup[]): Uint8Array | undefined => {
+  const order = String.fromCharCode(tiff[0], tiff[1]);
+  if (groups.length === 0 || tiff.length < 8 || (order !== 'II' && order !== 'MM')) return undefined;
+  const little = order === 'II';
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+
+  const selected = groups.map(g => GROUP_TAGS[g]);
+  const rootTags = new Set(selected.flatMap(g => g.root ?? []));
+  const exifTags = new Set(selected.flatMap(g => g.exif ?? []));
+  const rootAll = readIfd(tiff, view, view.getUint32(4, little), little);
+  const pointer = (tag: number) => {
+    const entry = rootAll.find(e => e.tag === tag && e.value.length === 4);
+    return entry ? new DataView(entry.value.buffer).getUint32(0, little) : 0;
+  };
+
+  const root = rootAll.filter(e => rootTags.has(e.tag));
+  const exif = readIfd(tiff, view, pointer(EXIF_POINTER), little).filter(e => exifTags.has(e.tag));
+  const gps = selected.some(g => g.gps) ? readIfd(tiff, view, pointer(GPS_POINTER), little) : [];
+  if (!root.length && !exif.length && !gps.length) return undefined;
+
+  // Sub-IFDs follow the root one; pointer entries are inline, so sizes are known up front
+  const exifAt = 8 + ifdSize(root) + (exif.length ? 12 : 0) + (gps.length ? 12 : 0);
+  const gpsAt = exifAt + (exif.length ? ifdSize(exif) : 0);
+  if (exif.length) root.push(longEntry(EXIF_POINTER, exifAt, little));
+  if (gps.length) root.push(longEntry(GPS_POINTER, gpsAt, little));
+
+  const out = new Uint8Array(gpsAt + (gps.length ? ifdSize(gps) : 0));
+  const outView = new DataView(out.buffer);
+  out.set(tiff.subarray(0, 2));
+  outView.setUint16(2, 42, little);
+  outView.setUint32(4, 8, little);
+  writeIfd(out, outView, 8, root, little);
+  if (exif.length) writeIfd(out, outView, exifAt, exif, little);
+  if (gps.length) writeIfd(out, outView, gpsAt, gps, little);
+  return out;
+};
+
+// --- Provenance ---
+
+export interface Provenance {
+  model?: string; // Unset when only local conversions were applied
+  prompt: string;
+  createdAt: Date;
+  fromPrompt: boolean; // Generated from text rather than edited from an upload
+}
+
+// IPTC terms that asset pipelines use to recognise AI-made images
+const DIGITAL_SOURCE_TYPES = {
+  generated: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+  edited: 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia'
+};
+
+const PROVENANCE_NS = 'urn:nano-banana-studio:provenance:1.0/';
+
+/**
+ * How the item's current result came about: every prompt along its edit lineage and
+ * the last model that ran on it.
+ */
+export const getProvenance = (item: ImageItem): Provenance => {
+  const lineage = item.activeStepId ? stepLineage(item, item.activeStepId) : [];
+  const last = lineage[lineage.length - 1];
+  const model = [...lineage].reverse().find(s => s.generation)?.generation?.model ?? item.generation?.model;
+  return {
+    model,
+    prompt: lineage.map(s => s.prompt.trim()).filter(Boolean).join('\n') || item.originPrompt || '',
+    createdAt: new Date(last?.createdAt ?? Date.now()),
+    fromPrompt: !!item.originPrompt
+  };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildXmp = ({ model, prompt, createdAt, fromPrompt }: Provenance) => {
+  const timestamp = createdAt.toISOString();
+  const properties: [string, string | undefined][] = [
+    ['xmp:CreatorTool', `${TOOL_NAME} ${TOOL_VERSION}`],
+    ['xmp:ModifyDate', timestamp],
+    ['Iptc4xmpExt:DigitalSourceType', model ? DIGITAL_SOURCE_TYPES[fromPrompt ? 'generated' : 'edited'] : undefined],
+    ['nbs:Tool', TOOL_NAME],
+    ['nbs:ToolVersion', TOOL_VERSION],
+    ['nbs:Model', model],
+    ['nbs:Prompt', prompt],
+    ['nbs:Timestamp', timestamp],
+  ];
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+    `    xmlns:nbs="${PROVENANCE_NS}">`,
+    ...properties.filter(([, value]) => value).map(([name, value]) => `   <${name}>${escapeXml(value!)}</${name}>`),
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n');
+};
+
+// Standard PNG keywords, so tools that ignore XMP still show them
+const provenanceText = ({ model, prompt, createdAt }: Provenance): Record<string, string> => ({
+  Software: `${TOOL_NAME} ${TOOL_VERSION}`,
+  'Creation Time': createdAt.toISOString(),
+  ...(model ? { Source: model } : {}),
+  ...(prompt ? { Description: prompt } : {})
+});
+
+/**
+ * The item's result as exported: the encoded image (or a resized copy of it) with the
+ * chosen EXIF fields and colour profile of the original, plus provenance tags.
+ * Metadata is best effort; a file that cannot be tagged is exported as it is.
+ */
+export const buildExportFile = async (item: ImageItem, options: ExportOptions, imageUrl = item.resultUrl!): Promise<Blob> => {
+  const result = await (await fetch(imageUrl)).blob();
+  try {
+    const wantsSource = options.exifGroups.length > 0 || options.keepColorProfile;
+    const source: SourceMetadata = wantsSource ? await readSourceMetadata(item.originalFile) : {};
+    const provenance = options.provenance ? getProvenance(item) : undefined;
+    const tagged = await writeMetadata(new Uint8Array(await result.arrayBuffer()), {
+      exif: source.exif && filterExif(source.exif, options.exifGroups),
+      icc: options.keepColorProfile ? source.icc : undefined,
+      xmp: provenance && buildXmp(provenance),
+      text: provenance && provenanceText(provenance)
+    });
+    return new Blob([tagged], { type: result.type });
+  } catch (e) {
+    console.warn(`Could not tag ${item.originalFile.name}, exporting without metadata`, e);
+    return result;
+  }
+};
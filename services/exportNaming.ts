@@ -0,0 +1,237 @@
+import { ExportGrouping, ExportOptions, ImageItem, PromptPreset } from '../types';
+import { resolvePrompt } from './presets';
+import { findStep } from './editHistory';
+import { MODEL_RATIO_TOLERANCE, ratioFromSize, sizeMatchesRatio } from './aspectRatios';
+
+const EXPORT_STORAGE_KEY = 'nano_export_options';
+
+export const NAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{original}', description: 'Source file name without extension' },
+  { token: '{ratio}', description: 'Aspect ratio, e.g. 16x9' },
+  { token: '{preset}', description: 'Preset name, or "custom"' },
+  { token: '{index}', description: 'Position in the batch, 001, 002…' },
+  { token: '{date}', description: 'Export date, YYYY-MM-DD' },
+  { token: '{model}', description: 'Model that produced the result, or "local"' },
+  { token: '{id}', description: 'Internal item id' },
+];
+
+export const EXPORT_GROUPINGS: { id: ExportGrouping; label: string }[] = [
+  { id: 'none', label: 'No folders' },
+  { id: 'ratio', label: 'Folder per ratio' },
+  { id: 'preset', label: 'Folder per preset' },
+  { id: 'source', label: 'Folder per source image' },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  nameTemplate: '{original}_{ratio}_{index}',
+  groupBy: 'none',
+  exifGroups: ['camera', 'date', 'copyright'],
+  // Results are rendered in sRGB, so a wide-gamut source profile would shift their colours
+  keepColorProfile: false,
+  provenance: true,
+  responsiveWidths: [],
+  srcsetSnippet: false
+};
+
+export const RESPONSIVE_WIDTHS = [320, 640, 1280, 2560];
+
+export const loadExportOptions = (): ExportOptions => {
+  try {
+    const stored = localStorage.getItem(EXPORT_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Could not read export options", e);
+  }
+  return DEFAULT_EXPORT_OPTIONS;
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  localStorage.setItem(EXPORT_STORAGE_KEY, JSON.stringify(options));
+};
+
+// Extension for an item's recorded output format, not whatever is selected globally now
+export const getResultExtension = (item: ImageItem) =>
+  (item.resultMetadata?.mimeType ?? item.settings?.exportFormat ?? 'image/png').split('/')[1];
+
+// Keeps names valid on every OS: no path separators, reserved characters or leading dots
+const sanitizeName = (name: string) =>
+  name.replace(/[/\\:*?"<>|\u0000-\u001f]+/g, '-').replace(/\s+/g, ' ').replace(/^[.\s]+|[.\s]+$/g, '') || 'image';
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const presetName = (item: ImageItem, presets: PromptPreset[]) => {
+  const presetId = item.settings?.presetId;
+  return (presetId && presets.find(p => p.id === presetId)?.name) || 'custom';
+};
+
+// From the result's real shape: masked and follow-up edits keep their source's ratio, not the target's
+const ratioLabel = (item: ImageItem) => {
+  const size = item.resultMetadata;
+  const target = item.settings?.aspectRatio;
+  const ratio = size && !(target && sizeMatchesRatio(size, target, MODEL_RATIO_TOLERANCE))
+    ? ratioFromSize(size, MODEL_RATIO_TOLERANCE)
+    : target;
+  return (ratio ?? 'original').replace(':', 'x');
+};
+
+export interface NameContext {
+  item: ImageItem;
+  index: number; // 1-based
+  presets: PromptPreset[];
+  date: Date;
+}
+
+/**
+ * Fills a naming template. Unknown tokens are left as typed so mistakes are visible.
+ */
+export const renderFileName = (template: string, { item, index, presets, date }: NameContext): string => {
+  const values: Record<string, string> = {
+    original: stripExtension(item.originalFile.name),
+    ratio: ratioLabel(item),
+    preset: presetName(item, presets),
+    index: String(index).padStart(3, '0'),
+    date: formatDate(date),
+    model: item.generation?.model ?? 'local',
+    id: item.id
+  };
+  const filled = template.replace(/\{(\w+)\}/g, (match, token: string) => values[token] ?? match);
+  return `${sanitizeName(filled)}.${getResultExtension(item)}`;
+};
+
+const groupFolder = (item: ImageItem, groupBy: ExportGrouping, presets: PromptPreset[]) => {
+  switch (groupBy) {
+    case 'ratio': return ratioLabel(item);
+    case 'preset': return presetName(item, presets);
+    case 'source': return stripExtension(item.originalFile.name);
+    default: return '';
+  }
+};
+
+export interface ResponsiveFile {
+  width: number;
+  height: number;
+  path: string;
+}
+
+export interface ExportEntry {
+  item: ImageItem;
+  path: string; // Inside the ZIP, folder included
+  responsive: ResponsiveFile[]; // Downscaled copies, narrowest first; never wider than the result
+}
+
+/**
+ * Works out every file's path in the archive. Names that collide within a folder
+ * get a numeric suffix instead of overwriting each other.
+ */
+export const planExport = (items: ImageItem[], options: ExportOptions, presets: PromptPreset[], date = new Date()): ExportEntry[] => {
+  const used = new Set<string>();
+  return items.map((item, i) => {
+    const folder = groupFolder(item, options.groupBy, presets);
+    const name = renderFileName(options.nameTemplate || DEFAULT_EXPORT_OPTIONS.nameTemplate, { item, index: i + 1, presets, date });
+    const prefix = folder ? `${sanitizeName(folder)}/` : '';
+
+    let path = `${prefix}${name}`;
+    for (let n = 2; used.has(path.toLowerCase()); n++) {
+      path = `${prefix}${stripExtension(name)}-${n}.${getResultExtension(item)}`;
+    }
+    used.add(path.toLowerCase());
+
+    const result = item.resultMetadata;
+    const responsive = result
+      ? [...options.responsiveWidths].sort((a, b) => a - b).filter(w => w < result.width).map(width => ({
+          width,
+          height: Math.max(1, Math.round((result.height * width) / result.width)),
+          path: `${stripExtension(path)}-${width}w.${getResultExtension(item)}`
+        }))
+      : [];
+    responsive.forEach(file => used.add(file.path.toLowerCase()));
+    return { item, path, responsive };
+  });
+};
+
+// Path of the srcset snippet written next to an entry's images
+export const srcsetSnippetPath = (entry: ExportEntry) => `${stripExtension(entry.path)}.html`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * An <img> tag offering every width of the entry, with paths relative to the snippet.
+ * Alt text is left for the page author.
+ */
+export const buildSrcsetSnippet = ({ item, path, responsive }: ExportEntry) => {
+  const fileName = (p: string) => encodeURI(p.split('/').pop()!);
+  const { width, height } = item.resultMetadata ?? item.metadata;
+  const candidates = [...responsive.map(f => `${fileName(f.path)} ${f.width}w`), `${fileName(path)} ${width}w`];
+  return [
+    `<img src="${escapeHtml(fileName(path))}"`,
+    `     srcset="${escapeHtml(candidates.join(', '))}"`,
+    `     sizes="(max-width: ${width}px) 100vw, ${width}px"`,
+    `     width="${width}" height="${height}" alt="" loading="lazy" decoding="async">`,
+    ''
+  ].join('\n');
+};
+
+/**
+ * Everything the item was billed for, as the spend ledger counts it: every edit step,
+ * including branches no longer shown, and the ratio-mismatch results each one discarded.
+ */
+const itemCost = (item: ImageItem) => {
+  const generations = item.history?.length ? item.history.map(s => s.generation) : [item.generation];
+  return generations.reduce((sum, g) => sum + (g?.cost ?? 0) + (g?.discardedCost ?? 0), 0);
+};
+
+/**
+ * Machine-readable record of an export: where each file came from and how it was made.
+ */
+export const buildManifest = (entries: ExportEntry[], options: ExportOptions, presets: PromptPreset[], date = new Date()) => {
+  const files = entries.map(({ item, path, responsive }) => {
+    const settings = item.settings;
+    const step = findStep(item, item.activeStepId);
+    return {
+      path,
+      source: {
+        fileName: item.originalFile.name,
+        width: item.metadata.width,
+        height: item.metadata.height,
+        originPrompt: item.originPrompt
+      },
+      prompt: step?.prompt ?? (settings ? resolvePrompt(settings, presets) : undefined),
+      model: item.generation?.model ?? 'local',
+      fallbackUsed: item.generation?.fallbackUsed,
+      settings: settings && {
+        aspectRatio: settings.aspectRatio,
+        outputSize: settings.outputSize,
+        imageSize: settings.imageSize,
+        conversionMode: settings.conversionMode ?? 'ai',
+        exportFormat: settings.exportFormat,
+        preset: settings.presetId ? presetName(item, presets) : undefined,
+        presetVariables: settings.presetVariables,
+        references: settings.references?.map(r => r.label)
+      },
+      result: item.resultMetadata && {
+        width: item.resultMetadata.width,
+        height: item.resultMetadata.height,
+        mimeType: item.resultMetadata.mimeType,
+        sizeBytes: item.resultMetadata.sizeBytes
+      },
+      responsive: responsive.length ? responsive : undefined,
+      editSteps: item.history?.length,
+      usage: item.generation?.usage,
+      resultCost: item.generation?.cost ?? 0,
+      cost: itemCost(item)
+    };
+  });
+
+  return {
+    exportedAt: date.toISOString(),
+    nameTemplate: options.nameTemplate,
+    groupBy: options.groupBy,
+    fileCount: files.length,
+    totalCost: Number(files.reduce((sum, f) => sum + f.cost, 0).toFixed(4)),
+    files
+  };
+};
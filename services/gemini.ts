@@ -1,42 +1,236 @@
+import { GenerationErrorClass, GenerationInfo, GenerationProgress, ImageSize } from '../types';
+import { ReferencePayload } from './references';
+
+export interface GeneratedImage extends GenerationInfo {
+  url: string; // Data URL of the raw model output
+}
+
+export interface GenerateOptions {
+  mimeType?: string; // Type of the source image; the server assumes JPEG when it is missing
+  models?: string[]; // Optional model chain override, tried in order
+  imageSize?: ImageSize; // Ignored by models without a native size option
+  maskBase64?: string; // PNG limiting the edit to its white area
+  references?: ReferencePayload[]; // Labelled extra images, sent in order after the source
+  onProgress?: (progress: GenerationProgress) => void; // Uses the streaming function and reports each stage
+  signal?: AbortSignal;
+}
+
+/**
+ * Error surfaced by the nano-banana function, carrying its classification and retry hint.
+ */
+export class GenerationError extends Error {
+  readonly status: number;
+  readonly errorClass: GenerationErrorClass;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, errorClass: GenerationErrorClass, retryAfterMs?: number) {
+    super(message);
+    this.name = 'GenerationError';
+    this.status = status;
+    this.errorClass = errorClass;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const classFromStatus = (status: number): GenerationErrorClass => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 422) return 'safety';
+  if (status === 400 || status === 413) return 'bad_input';
+  if (status === 404) return 'model_unavailable';
+  return 'transient';
+};
+
+const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Reads the streaming function's NDJSON events, reporting each stage, and returns the
+ * final payload. An error event becomes a GenerationError, as a failed response would.
+ */
+const readProgressStream = async (response: Response, onProgress: (progress: GenerationProgress) => void) => {
+  if (!response.body) throw new Error('Streaming is not supported by this browser');
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines.filter(l => l.trim())) {
+      const event = JSON.parse(line);
+      if (event.type === 'error') {
+        const status = event.status ?? 500;
+        throw new GenerationError(event.error || `Server error: ${status}`, status, event.errorClass || classFromStatus(status), event.retryAfterMs);
+      }
+      onProgress({
+        stage: event.type,
+        model: event.type === 'fallback' ? event.to : event.model,
+        attempt: event.attempt,
+        fallbackFrom: event.from,
+        message: event.message,
+        at: Date.now()
+      });
+      if (event.type === 'done') return event;
+    }
+  }
+  throw new GenerationError('The connection closed before the image arrived', 0, 'transient');
+};
+
 /**
  * Generates an edited image using Gemini via Netlify Function
  * Implements "User-Key Passthrough" pattern to avoid CORS
  */
 export const generateEditedImage = async (
-  base64Image: string,
+  base64Image: string | null, // null for text-to-image
   prompt: string,
   aspectRatio: string,
-  apiKey: string
-) => {
+  apiKey: string,
+  { mimeType: sourceMimeType, models, imageSize, maskBase64, references, onProgress, signal }: GenerateOptions = {}
+): Promise<GeneratedImage> => {
+  const startedAt = performance.now();
   try {
-    const response = await fetch('/.netlify/functions/nano-banana', {
+    const response = await fetch(onProgress ? '/.netlify/functions/nano-banana-stream' : '/.netlify/functions/nano-banana', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         apiKey,
-        imageBase64: base64Image.split(',')[1] || base64Image, // Ensure we send only the data part if it has prefix
+        imageBase64: base64Image ? base64Image.split(',')[1] || base64Image : undefined, // Ensure we send only the data part if it has prefix
+        mimeType: base64Image ? sourceMimeType : undefined,
+        maskBase64,
+        references,
         prompt,
-        aspectRatio
+        aspectRatio,
+        imageSize,
+        models
       }),
+      signal,
     });
 
     if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || `Server error: ${response.status}`);
+      const errorData = await response.json().catch(() => ({}));
+      throw new GenerationError(
+        errorData.error || `Server error: ${response.status}`,
+        response.status,
+        errorData.errorClass || classFromStatus(response.status),
+        errorData.retryAfterMs ?? parseRetryAfterHeader(response.headers.get('Retry-After'))
+      );
     }
 
-    const data = await response.json();
-    // App.tsx expects { url: string, mimeType: string }
+    const data = onProgress ? await readProgressStream(response, onProgress) : await response.json();
+    const mimeType = data.mimeType || 'image/png';
     return {
-      url: `data:image/jpeg;base64,${data.image}`,
-      mimeType: 'image/jpeg'
+      url: `data:${mimeType};base64,${data.image}`,
+      mimeType,
+      model: data.model,
+      fallbackUsed: !!data.fallbackUsed,
+      usage: data.usage,
+      aspectRatioMode: data.aspectRatioMode,
+      latencyMs: Math.round(performance.now() - startedAt)
     };
 
   } catch (error: any) {
+    // Let cancellations and classified errors through untouched
+    if (error.name === 'AbortError' || error instanceof GenerationError) throw error;
     console.error("Gemini Generation Error:", error);
-    throw new Error(error.message || "Failed to generate image");
+    // Anything else never reached the model (network drop, bad JSON) and is worth retrying
+    throw new GenerationError(error.message || "Failed to generate image", 0, 'transient');
+  }
+};
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: GenerationErrorClass[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  retryOn: ['quota', 'transient']
+};
+
+export interface RetryInfo {
+  attempt: number; // The attempt that will run next
+  delayMs: number;
+  error: GenerationError;
+}
+
+/**
+ * Full-jitter exponential backoff, never shorter than the server's own retry hint
+ * and never longer than the policy's maximum.
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number, retryAfterMs?: number) => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  return Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs ?? 0));
+};
+
+const abortableSleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * generateEditedImage with automatic retries for rate limits and transient failures.
+ * `onRetry` fires before each wait so callers can show progress or throttle other work.
+ */
+export const generateWithRetry = async (
+  base64Image: string | null, // null for text-to-image
+  prompt: string,
+  aspectRatio: string,
+  apiKey: string,
+  options: GenerateOptions & {
+    policy?: RetryPolicy;
+    onAttempt?: (attempt: number) => void;
+    onRetry?: (info: RetryInfo) => void;
+  } = {}
+): Promise<GeneratedImage> => {
+  const { policy = DEFAULT_RETRY_POLICY, onAttempt, onRetry, ...generateOptions } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+    try {
+      return await generateEditedImage(base64Image, prompt, aspectRatio, apiKey, generateOptions);
+    } catch (error: any) {
+      const retryable = error instanceof GenerationError && policy.retryOn.includes(error.errorClass);
+      if (!retryable || attempt >= policy.maxAttempts) throw error;
+      // Retrying before the server's hint would only fail again, and waiting it out could hold the queue for hours
+      if (error.retryAfterMs && error.retryAfterMs > policy.maxDelayMs) {
+        throw new GenerationError(
+          `${error.message} (server asked to wait ${Math.ceil(error.retryAfterMs / 1000)}s, longer than the ${Math.round(policy.maxDelayMs / 1000)}s retry limit)`,
+          error.status,
+          error.errorClass,
+          error.retryAfterMs
+        );
+      }
+
+      const delayMs = getRetryDelay(policy, attempt, error.retryAfterMs);
+      onRetry?.({ attempt: attempt + 1, delayMs, error });
+      await abortableSleep(delayMs, generateOptions.signal);
+    }
   }
 };
 
@@ -0,0 +1,42 @@
+import type { HeifDecoder } from 'libheif-js/libheif-wasm/libheif-bundle.mjs';
+import { OutputSize } from '../types';
+
+export interface DecodedHeif {
+  size: OutputSize;
+  rgba: Uint8ClampedArray<ArrayBuffer>;
+}
+
+// libheif with its WASM binary inlined (~2 MB), only fetched once a HEIC needs it
+let decoder: Promise<HeifDecoder> | null = null;
+
+const loadDecoder = () => {
+  decoder ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+    .then(({ default: libheif }) => new (libheif().HeifDecoder)())
+    .catch(e => {
+      decoder = null; // Let the next file try again, e.g. after a network hiccup
+      throw e;
+    });
+  return decoder;
+};
+
+/**
+ * Decodes the primary image of a HEIC/HEIF file with libheif, for browsers without
+ * a native decoder (everything but Safari). Throws when the file has no image
+ * libheif can read.
+ */
+export const decodeHeif = async (buffer: ArrayBuffer): Promise<DecodedHeif> => {
+  const images = (await loadDecoder()).decode(new Uint8Array(buffer));
+  try {
+    const image = images.find(i => i.is_primary()) ?? images[0];
+    if (!image) throw new Error('No image found in HEIC file');
+
+    const size = { width: image.get_width(), height: image.get_height() };
+    const target = { data: new Uint8ClampedArray(size.width * size.height * 4), width: size.width, height: size.height };
+    const decoded = await new Promise<typeof target | null>(resolve => image.display(target, resolve));
+    if (!decoded) throw new Error('Could not decode HEIC image data');
+
+    return { size, rgba: decoded.data };
+  } finally {
+    images.forEach(i => i.free());
+  }
+};
@@ -0,0 +1,318 @@
+// Reads and writes the metadata blocks of JPEG, PNG and WebP files without touching the pixel data
+
+export interface SourceMetadata {
+  exif?: Uint8Array; // TIFF structure, without the JPEG "Exif\0\0" header
+  icc?: Uint8Array;
+}
+
+export interface MetadataBlocks extends SourceMetadata {
+  xmp?: string;
+  text?: Record<string, string>; // PNG text chunks; other formats carry the same fields in XMP
+}
+
+type Container = 'jpeg' | 'png' | 'webp';
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+const PNG_SIGNATURE_LENGTH = 8;
+
+const encoder = new TextEncoder();
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Only for strings already known to be Latin-1
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+};
+
+const containerOf = (bytes: Uint8Array): Container | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (ascii(bytes, 0, 4) === '\x89PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  return null;
+};
+
+// zlib streams, as PNG's iCCP chunk stores the profile
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([data as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const stripExifHeader = (data: Uint8Array) => (ascii(data, 0, 6) === EXIF_HEADER ? data.subarray(6) : data);
+
+// --- JPEG ---
+
+interface JpegSegment {
+  marker: number;
+  bytes: Uint8Array; // Whole segment, marker included
+  payload: Uint8Array;
+}
+
+const readJpegSegments = (bytes: Uint8Array) => {
+  const segments: JpegSegment[] = [];
+  let at = 2;
+  // Everything from the first scan on is image data
+  while (at + 4 <= bytes.length && bytes[at] === 0xff && bytes[at + 1] !== 0xda && bytes[at + 1] !== 0xd9) {
+    const end = at + 2 + ((bytes[at + 2] << 8) | bytes[at + 3]);
+    segments.push({ marker: bytes[at + 1], bytes: bytes.subarray(at, end), payload: bytes.subarray(at + 4, end) });
+    at = end;
+  }
+  return { segments, imageData: bytes.subarray(at) };
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array) => {
+  const out = new Uint8Array(payload.length + 4);
+  out.set([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  out.set(payload, 4);
+  return out;
+};
+
+const isAppSegment = (segment: JpegSegment, marker: number, header: string) =>
+  segment.marker === marker && ascii(segment.payload, 0, header.length) === header;
+
+const readJpegMetadata = (bytes: Uint8Array): SourceMetadata => {
+  const { segments } = readJpegSegments(bytes);
+  const exif = segments.find(s => isAppSegment(s, 0xe1, EXIF_HEADER));
+  // Profiles over 64 KB are split across numbered APP2 segments
+  const iccChunks = segments
+    .filter(s => isAppSegment(s, 0xe2, ICC_HEADER))
+    .sort((a, b) => a.payload[12] - b.payload[12])
+    .map(s => s.payload.subarray(14));
+  return {
+    exif: exif?.payload.subarray(EXIF_HEADER.length),
+    icc: iccChunks.length ? concat(iccChunks) : undefined
+  };
+};
+
+const writeJpegMetadata = (bytes: Uint8Array<ArrayBuffer>, blocks: MetadataBlocks) => {
+  const { segments, imageData } = readJpegSegments(bytes);
+  const added: Uint8Array[] = [];
+  if (blocks.exif) added.push(jpegSegment(0xe1, concat([latin1(EXIF_HEADER), blocks.exif])));
+  if (blocks.xmp) added.push(jpegSegment(0xe1, concat([latin1(XMP_HEADER), encoder.encode(blocks.xmp)])));
+  if (blocks.icc) {
+    const chunkSize = MAX_SEGMENT_PAYLOAD - ICC_HEADER.length - 2;
+    const count = Math.ceil(blocks.icc.length / chunkSize);
+    for (let i = 0; i < count; i++) {
+      const chunk = blocks.icc.subarray(i * chunkSize, (i + 1) * chunkSize);
+      added.push(jpegSegment(0xe2, concat([latin1(ICC_HEADER), new Uint8Array([i + 1, count]), chunk])));
+    }
+  }
+  if (added.some(segment => segment.length - 2 > 0xffff)) throw new Error('Metadata block too large for a JPEG segment');
+
+  // New blocks go after the JFIF header, replacing whatever the encoder wrote
+  const replaced = (s: JpegSegment) =>
+    (blocks.exif && isAppSegment(s, 0xe1, EXIF_HEADER)) ||
+    (blocks.xmp && isAppSegment(s, 0xe1, XMP_HEADER)) ||
+    (blocks.icc && isAppSegment(s, 0xe2, ICC_HEADER));
+  const kept = segments.filter(s => !replaced(s));
+  const jfif = kept.filter(s => s.marker === 0xe0);
+  const rest = kept.filter(s => s.marker !== 0xe0);
+  return concat([bytes.subarray(0, 2), ...jfif.map(s => s.bytes), ...added, ...rest.map(s => s.bytes), imageData]);
+};
+
+// --- PNG ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface PngChunk {
+  type: string;
+  bytes: Uint8Array; // Whole chunk, length and CRC included
+  data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let at = PNG_SIGNATURE_LENGTH; at + 12 <= bytes.length;) {
+    const end = at + 12 + view.getUint32(at);
+    chunks.push({ type: ascii(bytes, at + 4, 4), bytes: bytes.subarray(at, end), data: bytes.subarray(at + 8, end - 4) });
+    at = end;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(latin1(type), 4);
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+  return out;
+};
+
+// Uncompressed UTF-8 text with no language tag
+const pngInternationalText = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+// tEXt only holds Latin-1; anything else goes into iTXt
+const pngTextChunk = (keyword: string, text: string) =>
+  /^[\u0000-\u00ff]*$/.test(text)
+    ? pngChunk('tEXt', concat([latin1(keyword), new Uint8Array([0]), latin1(text)]))
+    : pngInternationalText(keyword, text);
+
+const readPngMetadata = async (bytes: Uint8Array): Promise<SourceMetadata> => {
+  const chunks = readPngChunks(bytes);
+  const exif = chunks.find(c => c.type === 'eXIf');
+  const iccp = chunks.find(c => c.type === 'iCCP');
+  // Profile name, NUL, compression method, then the zlib stream
+  const icc = iccp ? await transform(iccp.data.subarray(iccp.data.indexOf(0) + 2), new DecompressionStream('deflate')) : undefined;
+  return { exif: exif && stripExifHeader(exif.data), icc };
+};
+
+const writePngMetadata = async (bytes: Uint8Array<ArrayBuffer>, blocks: MetadataBlocks) => {
+  const chunks = readPngChunks(bytes);
+  const added: Uint8Array[] = [];
+  if (blocks.icc) {
+    const compressed = await transform(blocks.icc, new CompressionStream('deflate'));
+    added.push(pngChunk('iCCP', concat([latin1('ICC profile'), new Uint8Array([0, 0]), compressed])));
+  }
+  if (blocks.exif) added.push(pngChunk('eXIf', blocks.exif));
+  if (blocks.xmp) added.push(pngInternationalText('XML:com.adobe.xmp', blocks.xmp));
+  Object.entries(blocks.text ?? {}).forEach(([keyword, text]) => added.push(pngTextChunk(keyword, text)));
+
+  // An embedded profile overrides the sRGB and gamma hints
+  const replaced = (c: PngChunk) =>
+    (blocks.icc && ['iCCP', 'sRGB', 'gAMA', 'cHRM'].includes(c.type)) || (blocks.exif && c.type === 'eXIf');
+  const [header, ...rest] = chunks.filter(c => !replaced(c));
+  return concat([bytes.subarray(0, PNG_SIGNATURE_LENGTH), header.bytes, ...added, ...rest.map(c => c.bytes)]);
+};
+
+// --- WebP ---
+
+interface RiffChunk {
+  type: string;
+  bytes: Uint8Array; // Whole chunk, header and padding included
+  data: Uint8Array;
+}
+
+const readRiffChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  for (let at = 12; at + 8 <= bytes.length;) {
+    const size = view.getUint32(at + 4, true);
+    const end = Math.min(bytes.length, at + 8 + size + (size % 2));
+    chunks.push({ type: ascii(bytes, at, 4), bytes: bytes.subarray(at, end), data: bytes.subarray(at + 8, at + 8 + size) });
+    at = end;
+  }
+  return chunks;
+};
+
+const riffChunk = (type: string, data: Uint8Array) => {
+  const out = new Uint8Array(8 + data.length + (data.length % 2));
+  out.set(latin1(type));
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const VP8X_FLAGS = { animation: 0x02, xmp: 0x04, exif: 0x08, alpha: 0x10, icc: 0x20 };
+
+// Canvas size and alpha as the image chunk itself declares them
+const readWebpCanvas = (chunks: RiffChunk[]) => {
+  const vp8x = chunks.find(c => c.type === 'VP8X');
+  if (vp8x) {
+    const d = vp8x.data;
+    return {
+      width: (d[4] | (d[5] << 8) | (d[6] << 16)) + 1,
+      height: (d[7] | (d[8] << 8) | (d[9] << 16)) + 1,
+      flags: d[0]
+    };
+  }
+  const lossless = chunks.find(c => c.type === 'VP8L');
+  if (lossless) {
+    const bits = new DataView(lossless.data.buffer, lossless.data.byteOffset + 1, 4).getUint32(0, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, flags: (bits >>> 28) & 1 ? VP8X_FLAGS.alpha : 0 };
+  }
+  const lossy = chunks.find(c => c.type === 'VP8 ');
+  if (!lossy) throw new Error('WebP has no image data');
+  const view = new DataView(lossy.data.buffer, lossy.data.byteOffset, lossy.data.byteLength);
+  return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, flags: 0 };
+};
+
+const readWebpMetadata = (bytes: Uint8Array): SourceMetadata => {
+  const chunks = readRiffChunks(bytes);
+  const exif = chunks.find(c => c.type === 'EXIF');
+  return { exif: exif && stripExifHeader(exif.data), icc: chunks.find(c => c.type === 'ICCP')?.data };
+};
+
+/**
+ * Metadata needs the extended (VP8X) layout: header, profile, image chunks, then
+ * EXIF and XMP, with flags announcing each one.
+ */
+const writeWebpMetadata = (bytes: Uint8Array<ArrayBuffer>, blocks: MetadataBlocks) => {
+  const chunks = readRiffChunks(bytes);
+  const canvas = readWebpCanvas(chunks);
+  const image = chunks.filter(c => !['VP8X', 'ICCP', 'EXIF', 'XMP '].includes(c.type));
+  const keep = (type: string) => chunks.find(c => c.type === type)?.data;
+  const icc = blocks.icc ?? keep('ICCP');
+  const exif = blocks.exif ?? keep('EXIF');
+  const xmp = blocks.xmp ? encoder.encode(blocks.xmp) : keep('XMP ');
+
+  const header = new Uint8Array(10);
+  header[0] = (canvas.flags & (VP8X_FLAGS.animation | VP8X_FLAGS.alpha)) |
+    (image.some(c => c.type === 'ALPH') ? VP8X_FLAGS.alpha : 0) |
+    (icc ? VP8X_FLAGS.icc : 0) | (exif ? VP8X_FLAGS.exif : 0) | (xmp ? VP8X_FLAGS.xmp : 0);
+  // Canvas width and height minus one, 24-bit little-endian
+  [canvas.width - 1, canvas.height - 1].forEach((value, i) => header.set([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff], 4 + i * 3));
+
+  const body = concat([
+    latin1('WEBP'),
+    riffChunk('VP8X', header),
+    ...(icc ? [riffChunk('ICCP', icc)] : []),
+    ...image.map(c => c.bytes),
+    ...(exif ? [riffChunk('EXIF', exif)] : []),
+    ...(xmp ? [riffChunk('XMP ', xmp)] : [])
+  ]);
+  const out = concat([latin1('RIFF'), new Uint8Array(4), body]);
+  new DataView(out.buffer).setUint32(4, body.length, true);
+  return out;
+};
+
+// --- Public API ---
+
+/**
+ * EXIF and ICC profile of a JPEG, PNG or WebP file. Other formats have none to offer.
+ */
+export const readSourceMetadata = async (file: Blob): Promise<SourceMetadata> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  switch (containerOf(bytes)) {
+    case 'jpeg': return readJpegMetadata(bytes);
+    case 'png': return readPngMetadata(bytes);
+    case 'webp': return readWebpMetadata(bytes);
+    default: return {};
+  }
+};
+
+/**
+ * Embeds metadata blocks into an encoded image. Blocks that are set replace the
+ * file's own; files in other formats come back unchanged.
+ */
+export const writeMetadata = async (bytes: Uint8Array<ArrayBuffer>, blocks: MetadataBlocks): Promise<Uint8Array<ArrayBuffer>> => {
+  if (!blocks.exif && !blocks.icc && !blocks.xmp && !blocks.text) return bytes;
+  switch (containerOf(bytes)) {
+    case 'jpeg': return writeJpegMetadata(bytes, blocks);
+    case 'png': return writePngMetadata(bytes, blocks);
+    case 'webp': return writeWebpMetadata(bytes, blocks);
+    default: return bytes;
+  }
+};
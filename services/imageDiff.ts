@@ -0,0 +1,76 @@
+import { OutputSize } from '../types';
+import { coverCropRect, createCanvas, loadImage } from './imageOps';
+
+// Per-pixel difference (max over RGB, 0-255) below which a pixel counts as unchanged,
+// so JPEG noise doesn't light up the whole heatmap
+export const DIFF_THRESHOLD = 24;
+
+export interface ComparePair {
+  before: string; // Aligned to the after image's frame
+  after: string;
+  size: OutputSize;
+}
+
+export interface DiffResult {
+  heatmapUrl: string;
+  changedRatio: number; // Share of pixels above the threshold, 0-1
+}
+
+/**
+ * Brings the before image into the after image's frame (centre crop, like the
+ * conversion does), so the two can be overlaid pixel for pixel.
+ */
+export const alignForCompare = async (beforeUrl: string, afterUrl: string): Promise<ComparePair> => {
+  const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+  const size = { width: after.naturalWidth, height: after.naturalHeight };
+  if (before.naturalWidth === size.width && before.naturalHeight === size.height) {
+    return { before: beforeUrl, after: afterUrl, size };
+  }
+
+  const { canvas, ctx } = createCanvas(size);
+  const { sx, sy, sw, sh } = coverCropRect({ width: before.naturalWidth, height: before.naturalHeight }, size);
+  ctx.drawImage(before, sx, sy, sw, sh, 0, 0, size.width, size.height);
+  return { before: canvas.toDataURL('image/png'), after: afterUrl, size };
+};
+
+// Purple through red to yellow as the difference grows
+const heatColor = (t: number): [number, number, number] => {
+  if (t < 0.5) return [Math.round(510 * t), 0, Math.round(120 * (1 - 2 * t))];
+  return [255, Math.round(510 * (t - 0.5)), 0];
+};
+
+/**
+ * Heatmap of where two aligned images differ. Unchanged pixels show a dimmed
+ * greyscale of the after image so the changed regions can be located.
+ */
+export const computeDiffHeatmap = async ({ before, after, size }: ComparePair): Promise<DiffResult> => {
+  const [a, b] = await Promise.all([loadImage(before), loadImage(after)]);
+  const first = createCanvas(size);
+  first.ctx.drawImage(a, 0, 0, size.width, size.height);
+  const { canvas, ctx } = createCanvas(size);
+  ctx.drawImage(b, 0, 0, size.width, size.height);
+
+  const beforeData = first.ctx.getImageData(0, 0, size.width, size.height).data;
+  const output = ctx.getImageData(0, 0, size.width, size.height);
+  const data = output.data;
+  let changed = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(data[i] - beforeData[i]),
+      Math.abs(data[i + 1] - beforeData[i + 1]),
+      Math.abs(data[i + 2] - beforeData[i + 2])
+    );
+    if (diff < DIFF_THRESHOLD) {
+      const grey = Math.round((data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) * 0.35);
+      data[i] = data[i + 1] = data[i + 2] = grey;
+    } else {
+      changed++;
+      [data[i], data[i + 1], data[i + 2]] = heatColor(0.3 + 0.7 * (diff / 255));
+    }
+    data[i + 3] = 255;
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return { heatmapUrl: canvas.toDataURL('image/png'), changedRatio: changed / (size.width * size.height) };
+};
@@ -0,0 +1,117 @@
+import { EncoderOptions, ExportFormat, OutputSize } from '../types';
+
+export const EXPORT_QUALITY = 0.92;
+
+export interface EncodedImage {
+  url: string;
+  mimeType: string; // What the browser actually wrote, which differs when it lacks the encoder
+}
+
+const encoderSupport = new Map<string, boolean>();
+
+/**
+ * Whether the browser's canvas can encode `format`; unsupported types silently come
+ * out as PNG.
+ */
+export const isFormatSupported = (format: ExportFormat) => {
+  if (!encoderSupport.has(format)) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    encoderSupport.set(format, canvas.toDataURL(format).startsWith(`data:${format}`));
+  }
+  return encoderSupport.get(format)!;
+};
+
+/**
+ * Encodes a canvas, falling back to PNG when the format has no encoder here.
+ * Lossless asks for quality 1, which WebP and AVIF encoders treat as lossless.
+ */
+export const encodeCanvas = (canvas: HTMLCanvasElement, format: ExportFormat, options: EncoderOptions = { quality: EXPORT_QUALITY }): EncodedImage => {
+  const mimeType = isFormatSupported(format) ? format : 'image/png';
+  return { url: canvas.toDataURL(mimeType, options.lossless ? 1 : options.quality), mimeType };
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'Anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = url;
+  });
+
+/**
+ * Centre crop (cover) of a source of `from` size so it fills `to` exactly.
+ * Pure arithmetic, so the same inputs always give the same rectangle.
+ */
+export const coverCropRect = (from: OutputSize, to: OutputSize) => {
+  const scale = Math.max(to.width / from.width, to.height / from.height);
+  const sw = to.width / scale;
+  const sh = to.height / scale;
+  return { sx: (from.width - sw) / 2, sy: (from.height - sh) / 2, sw, sh };
+};
+
+/**
+ * Centred placement of a `from` sized image scaled to fit inside `to` (contain).
+ */
+export const containRect = (from: OutputSize, to: OutputSize) => {
+  const scale = Math.min(to.width / from.width, to.height / from.height);
+  const dw = from.width * scale;
+  const dh = from.height * scale;
+  return { dx: (to.width - dw) / 2, dy: (to.height - dh) / 2, dw, dh };
+};
+
+export const createCanvas = (size: OutputSize) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context failed');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
+
+export interface ExactSizeResult extends EncodedImage {
+  sourceSize: OutputSize; // What the model actually returned
+}
+
+/**
+ * Scales and centre-crops an image to exactly `size` pixels, encodes it in `format`
+ * and decodes the output again to verify the final dimensions.
+ */
+export const resizeToExactSize = async (imageUrl: string, size: OutputSize, format: ExportFormat, options?: EncoderOptions): Promise<ExactSizeResult> => {
+  const img = await loadImage(imageUrl);
+  const sourceSize = { width: img.naturalWidth, height: img.naturalHeight };
+
+  const { canvas, ctx } = createCanvas(size);
+  const { sx, sy, sw, sh } = coverCropRect(sourceSize, size);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, size.width, size.height);
+  const encoded = encodeCanvas(canvas, format, options);
+
+  const check = await loadImage(encoded.url);
+  if (check.naturalWidth !== size.width || check.naturalHeight !== size.height) {
+    throw new Error(`Resize produced ${check.naturalWidth}×${check.naturalHeight}, expected ${size.width}×${size.height}`);
+  }
+  return { ...encoded, sourceSize };
+};
+
+/**
+ * Re-encodes an image at its own size in another format.
+ */
+export const encodeImage = async (imageUrl: string, format: ExportFormat, options?: EncoderOptions): Promise<EncodedImage> => {
+  const img = await loadImage(imageUrl);
+  const { canvas, ctx } = createCanvas({ width: img.naturalWidth, height: img.naturalHeight });
+  ctx.drawImage(img, 0, 0);
+  return encodeCanvas(canvas, format, options);
+};
+
+/**
+ * Re-encodes an image at `width` pixels wide, keeping its aspect ratio.
+ */
+export const scaleToWidth = async (imageUrl: string, width: number, format: ExportFormat, options?: EncoderOptions): Promise<EncodedImage> => {
+  const img = await loadImage(imageUrl);
+  const { canvas, ctx } = createCanvas({ width, height: Math.max(1, Math.round((img.naturalHeight * width) / img.naturalWidth)) });
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return encodeCanvas(canvas, format, options);
+};
@@ -0,0 +1,265 @@
+import { ImageMetadata, OutputSize } from '../types';
+import { createCanvas, EXPORT_QUALITY, loadImage } from './imageOps';
+import { decodeHeif } from './heifDecoder';
+import { decodeTiff } from './tiffDecoder';
+
+// Formats both the browser and the model take as they are
+export const PASSTHROUGH_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp', gif: 'image/gif',
+  heic: 'image/heic', heif: 'image/heif', avif: 'image/avif', tif: 'image/tiff', tiff: 'image/tiff',
+  bmp: 'image/bmp', svg: 'image/svg+xml'
+};
+
+// Camera raw files; only their embedded JPEG preview is used
+const RAW_EXTENSIONS = ['dng', 'cr2', 'cr3', 'nef', 'nrw', 'arw', 'srf', 'sr2', 'orf', 'rw2', 'raf', 'pef', 'srw', 'x3f', '3fr', 'erf', 'kdc', 'mrw'];
+
+// Converted formats that may carry transparency are re-encoded losslessly
+const LOSSLESS_TYPES = ['image/gif', 'image/bmp', 'image/tiff', 'image/svg+xml'];
+
+export const ACCEPTED_FILE_TYPES = ['image/*', ...Object.keys(EXTENSION_TYPES), ...RAW_EXTENSIONS]
+  .map(ext => (ext.includes('/') ? ext : `.${ext}`))
+  .join(',');
+
+const DECODE_TIMEOUT_MS = 20000;
+const SVG_RASTER_EDGE = 2048;
+const MAX_PREVIEW_CANDIDATES = 12;
+
+/**
+ * An upload that could not be turned into a usable image.
+ */
+export class IngestError extends Error {
+  readonly fileName: string;
+
+  constructor(fileName: string, message: string) {
+    super(message);
+    this.name = 'IngestError';
+    this.fileName = fileName;
+  }
+}
+
+export interface IngestedImage {
+  file: File; // What the app works with and sends to the model
+  metadata: ImageMetadata;
+}
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+const isRawFile = (file: File) => RAW_EXTENSIONS.includes(extensionOf(file.name));
+
+export const isImageCandidate = (file: File) =>
+  file.type.startsWith('image/') || extensionOf(file.name) in EXTENSION_TYPES || isRawFile(file);
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Detects the real format from the file's first bytes; the browser's `type` is often
+ * empty or wrong for HEIC, TIFF and renamed files.
+ */
+export const sniffImageType = async (file: Blob & { name?: string }): Promise<string> => {
+  const bytes = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(bytes, 0, 4) === '\x89PNG') return 'image/png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'image/bmp';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'image/tiff';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    // Major brand, minor version, then compatible brands to the end of the box. Many
+    // AVIFs use the generic mif1/msf1 as major brand and only list avif further on
+    const boxEnd = Math.min(new DataView(bytes.buffer).getUint32(0), bytes.length);
+    const brands = [ascii(bytes, 8, 4)];
+    for (let at = 16; at + 4 <= boxEnd; at += 4) brands.push(ascii(bytes, at, 4));
+    if (brands.some(b => b === 'avif' || b === 'avis')) return 'image/avif';
+    if (brands.some(b => ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(b))) return 'image/heic';
+  }
+  if (/<svg[\s>]/i.test(ascii(bytes, 0, bytes.length))) return 'image/svg+xml';
+  return EXTENSION_TYPES[extensionOf(file.name ?? '')] ?? file.type;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+/**
+ * Decodes with the browser's own codecs. Rejects instead of waiting forever when
+ * the browser cannot decode the format.
+ */
+const decodeBlob = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await withTimeout(loadImage(url), DECODE_TIMEOUT_MS, 'Timed out decoding image');
+    if (!img.naturalWidth || !img.naturalHeight) throw new Error('Image has no dimensions');
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Reads dimensions and size, rejecting files the browser cannot decode.
+ */
+export const readImageMetadata = async (file: File): Promise<ImageMetadata> => {
+  const img = await decodeBlob(file);
+  return { width: img.naturalWidth, height: img.naturalHeight, sizeBytes: file.size, mimeType: file.type };
+};
+
+// SVGs without width/height decode at an arbitrary or zero size; the viewBox gives the real shape
+const svgSize = async (file: Blob, img: HTMLImageElement | null): Promise<OutputSize> => {
+  let width = img?.naturalWidth ?? 0;
+  let height = img?.naturalHeight ?? 0;
+  const viewBox = (await file.text()).match(/viewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)/i);
+  if (viewBox) {
+    width = Number(viewBox[1]);
+    height = Number(viewBox[2]);
+  }
+  if (!width || !height) width = height = 1;
+  const scale = SVG_RASTER_EDGE / Math.max(width, height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const rasterizeSvg = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const svg = new Blob([file], { type: 'image/svg+xml' });
+  const url = URL.createObjectURL(svg);
+  try {
+    const img = await withTimeout(loadImage(url), DECODE_TIMEOUT_MS, 'Timed out rendering SVG');
+    const { canvas, ctx } = createCanvas(await svgSize(svg, img));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const imageToCanvas = (img: HTMLImageElement) => {
+  const { canvas, ctx } = createCanvas({ width: img.naturalWidth, height: img.naturalHeight });
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+const decodeTiffFile = async (file: Blob): Promise<HTMLCanvasElement> => {
+  try {
+    return imageToCanvas(await decodeBlob(file)); // Safari reads TIFF natively
+  } catch {
+    const { size, rgba } = decodeTiff(await file.arrayBuffer());
+    const { canvas, ctx } = createCanvas(size);
+    ctx.putImageData(new ImageData(rgba, size.width, size.height), 0, 0);
+    return canvas;
+  }
+};
+
+const decodeHeicFile = async (file: Blob): Promise<HTMLCanvasElement> => {
+  try {
+    return imageToCanvas(await decodeBlob(new Blob([file], { type: 'image/heic' }))); // Safari reads HEIC natively
+  } catch {
+    const { size, rgba } = await decodeHeif(await file.arrayBuffer());
+    const { canvas, ctx } = createCanvas(size);
+    ctx.putImageData(new ImageData(rgba, size.width, size.height), 0, 0);
+    return canvas;
+  }
+};
+
+/**
+ * Raw files embed one or more JPEG previews. Every JPEG start marker is tried
+ * (decoders ignore whatever follows the image) and the largest preview wins.
+ */
+const extractRawPreview = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const starts: number[] = [];
+  for (let i = 0; i < bytes.length - 3 && starts.length < MAX_PREVIEW_CANDIDATES; i++) {
+    // SOI followed by the next segment's marker
+    if (bytes[i] === 0xff && bytes[i + 1] === 0xd8 && bytes[i + 2] === 0xff && bytes[i + 3] >= 0xc0) starts.push(i);
+  }
+
+  let best: HTMLImageElement | null = null;
+  for (const start of starts) {
+    try {
+      const img = await decodeBlob(new Blob([bytes.subarray(start)], { type: 'image/jpeg' }));
+      if (!best || img.naturalWidth * img.naturalHeight > best.naturalWidth * best.naturalHeight) best = img;
+    } catch {
+      // Not a decodable preview; keep looking
+    }
+  }
+  if (!best) throw new Error('No embedded preview found in this raw file');
+  return imageToCanvas(best);
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string, type: string) =>
+  new Promise<File>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(new File([blob], name, { type })) : reject(new Error('Could not encode converted image'))),
+      type,
+      EXPORT_QUALITY
+    );
+  });
+
+const decodeForConversion = async (file: File, type: string): Promise<HTMLCanvasElement> => {
+  if (isRawFile(file)) return extractRawPreview(file);
+  if (type === 'image/svg+xml') return rasterizeSvg(file);
+  if (type === 'image/tiff') return decodeTiffFile(file);
+  if (type === 'image/heic' || type === 'image/heif') return decodeHeicFile(file);
+  try {
+    return imageToCanvas(await decodeBlob(new Blob([file], { type })));
+  } catch {
+    const format = type.split('/')[1]?.toUpperCase() || 'this format';
+    throw new Error(`This browser cannot decode ${format}. Convert it to JPEG or PNG first.`);
+  }
+};
+
+/**
+ * Turns an upload into a file the browser can show and the model accepts: JPEG,
+ * PNG and WebP pass through with their real MIME type; HEIC, AVIF, TIFF, BMP, GIF,
+ * SVG and raw previews are decoded and re-encoded. Fails with an IngestError
+ * rather than hanging on files that cannot be decoded.
+ */
+export const ingestFile = async (file: File): Promise<IngestedImage> => {
+  try {
+    const type = await sniffImageType(file);
+
+    if (PASSTHROUGH_TYPES.includes(type) && !isRawFile(file)) {
+      const typed = file.type === type ? file : new File([file], file.name, { type, lastModified: file.lastModified });
+      return { file: typed, metadata: await readImageMetadata(typed) };
+    }
+
+    const canvas = await decodeForConversion(file, type);
+    const targetType = LOSSLESS_TYPES.includes(type) ? 'image/png' : 'image/jpeg';
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.${targetType === 'image/png' ? 'png' : 'jpg'}`;
+    const converted = await canvasToFile(canvas, name, targetType);
+    return {
+      file: converted,
+      metadata: {
+        width: canvas.width,
+        height: canvas.height,
+        sizeBytes: converted.size,
+        mimeType: targetType,
+        convertedFrom: isRawFile(file) ? `raw/${extensionOf(file.name)}` : type || 'unknown'
+      }
+    };
+  } catch (e: any) {
+    throw new IngestError(file.name, e?.message || 'Could not read image');
+  }
+};
+
+/**
+ * Splits a data URL into the bare base64 payload and its MIME type, whatever the
+ * type (e.g. image/svg+xml).
+ */
+export const splitDataUrl = (dataUrl: string): { data: string; mimeType: string } => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, comma);
+  return { data: dataUrl.slice(comma + 1), mimeType: header.slice(5).split(';')[0] || 'application/octet-stream' };
+};
+
+export const readFileAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => (reader.error ? reject(reader.error) : resolve(reader.result as string));
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,135 @@
+export interface QueueJob {
+  id: string;
+}
+
+export interface QueueSnapshot {
+  pending: string[];
+  running: string[];
+  paused: boolean;
+  concurrency: number;
+  throttledUntil: number | null; // Epoch ms; no new jobs start before this
+}
+
+export interface JobQueueOptions<T extends QueueJob> {
+  concurrency: number;
+  run: (job: T, signal: AbortSignal) => Promise<void>;
+  onCancel?: (job: T) => void; // Called for jobs cancelled before they started
+}
+
+export interface JobQueue<T extends QueueJob> {
+  enqueue: (jobs: T | T[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  setConcurrency: (concurrency: number) => void;
+  throttle: (ms: number) => void;
+  has: (id: string) => boolean;
+  getSnapshot: () => QueueSnapshot;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * FIFO queue running at most `concurrency` jobs at once. Each running job gets
+ * its own AbortController so it can be cancelled mid-flight.
+ */
+export const createJobQueue = <T extends QueueJob>(options: JobQueueOptions<T>): JobQueue<T> => {
+  const pending: T[] = [];
+  const running = new Map<string, AbortController>();
+  const listeners = new Set<() => void>();
+  let paused = false;
+  let concurrency = Math.max(1, options.concurrency);
+  let throttledUntil: number | null = null;
+  let throttleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const takeSnapshot = (): QueueSnapshot => ({
+    pending: pending.map(j => j.id),
+    running: [...running.keys()],
+    paused,
+    concurrency,
+    throttledUntil
+  });
+  let snapshot = takeSnapshot();
+
+  const notify = () => {
+    snapshot = takeSnapshot();
+    listeners.forEach(listener => listener());
+  };
+
+  const pump = () => {
+    if (throttledUntil !== null && Date.now() >= throttledUntil) {
+      throttledUntil = null;
+    }
+    while (!paused && throttledUntil === null && running.size < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      const controller = new AbortController();
+      running.set(job.id, controller);
+
+      options.run(job, controller.signal)
+        .catch(e => console.error(`Job ${job.id} failed`, e))
+        .finally(() => {
+          if (running.get(job.id) === controller) running.delete(job.id);
+          pump();
+        });
+    }
+    notify();
+  };
+
+  const removePending = (id: string) => {
+    const idx = pending.findIndex(j => j.id === id);
+    if (idx === -1) return;
+    const [job] = pending.splice(idx, 1);
+    options.onCancel?.(job);
+  };
+
+  return {
+    enqueue: (jobs) => {
+      for (const job of Array.isArray(jobs) ? jobs : [jobs]) {
+        if (running.has(job.id) || pending.some(j => j.id === job.id)) continue;
+        pending.push(job);
+      }
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      notify();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    cancel: (id) => {
+      removePending(id);
+      running.get(id)?.abort();
+      notify();
+    },
+    cancelAll: () => {
+      [...pending].forEach(job => removePending(job.id));
+      running.forEach(controller => controller.abort());
+      notify();
+    },
+    setConcurrency: (next) => {
+      concurrency = Math.max(1, next);
+      pump();
+    },
+    throttle: (ms) => {
+      // Extend, never shorten, an active throttle window
+      const until = Date.now() + ms;
+      if (throttledUntil !== null && throttledUntil >= until) return;
+      throttledUntil = until;
+      if (throttleTimer) clearTimeout(throttleTimer);
+      throttleTimer = setTimeout(() => {
+        throttleTimer = null;
+        throttledUntil = null;
+        pump();
+      }, ms);
+      notify();
+    },
+    has: (id) => running.has(id) || pending.some(j => j.id === id),
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
@@ -0,0 +1,25 @@
+// The parts of libheif-js used by heifDecoder.ts; the package ships no typings for its JS API
+
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  interface PixelBuffer {
+    data: Uint8ClampedArray<ArrayBuffer>;
+    width: number;
+    height: number;
+  }
+
+  export interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    // Fills `target` with interleaved RGBA and passes it back, or null on failure
+    display<T extends PixelBuffer>(target: T, callback: (result: T | null) => void): void;
+    free(): void;
+  }
+
+  export interface HeifDecoder {
+    decode(data: Uint8Array): HeifImage[]; // Empty when the file can't be parsed
+  }
+
+  const libheif: () => { HeifDecoder: new () => HeifDecoder };
+  export default libheif;
+}
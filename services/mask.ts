@@ -0,0 +1,64 @@
+import { OutputSize } from '../types';
+import { coverCropRect, createCanvas, loadImage } from './imageOps';
+
+/**
+ * Converts an editor mask (opaque where painted, transparent elsewhere) into the
+ * black-and-white PNG the model expects, returned as bare base64.
+ */
+export const maskToModelInput = async (maskUrl: string, size: OutputSize): Promise<string> => {
+  const mask = await loadImage(maskUrl);
+  const { canvas, ctx } = createCanvas(size);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, size.width, size.height);
+
+  // Recolour the painted area to white whatever colour it was drawn in
+  const layer = createCanvas(size);
+  layer.ctx.drawImage(mask, 0, 0, size.width, size.height);
+  layer.ctx.globalCompositeOperation = 'source-in';
+  layer.ctx.fillStyle = '#ffffff';
+  layer.ctx.fillRect(0, 0, size.width, size.height);
+  ctx.drawImage(layer.canvas, 0, 0);
+
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Mask covering everything outside `rect`, used to tell the model to fill padding only.
+ */
+export const createPaddingMask = (size: OutputSize, rect: { dx: number; dy: number; dw: number; dh: number }): string => {
+  const { canvas, ctx } = createCanvas(size);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.clearRect(rect.dx, rect.dy, rect.dw, rect.dh);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Keeps the original everywhere except under the mask, where the model's result shows through.
+ * The result is scaled to the original's frame first, so the output always has the source size.
+ */
+export const compositeMasked = async (resultUrl: string, originalUrl: string, maskUrl: string): Promise<string> => {
+  const [result, original, mask] = await Promise.all([loadImage(resultUrl), loadImage(originalUrl), loadImage(maskUrl)]);
+  const size = { width: original.naturalWidth, height: original.naturalHeight };
+
+  const edited = createCanvas(size);
+  const { sx, sy, sw, sh } = coverCropRect({ width: result.naturalWidth, height: result.naturalHeight }, size);
+  edited.ctx.drawImage(result, sx, sy, sw, sh, 0, 0, size.width, size.height);
+  edited.ctx.globalCompositeOperation = 'destination-in';
+  edited.ctx.drawImage(mask, 0, 0, size.width, size.height);
+
+  const { canvas, ctx } = createCanvas(size);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(edited.canvas, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
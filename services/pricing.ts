@@ -0,0 +1,26 @@
+import { TokenUsage } from '../types';
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per 1M input tokens (text + image)
+  outputPerMillion: number; // USD per 1M output tokens (image)
+  flatPerImage: number; // USD per image, used when the response has no usage metadata
+}
+
+// Official Gemini API pricing (paid tier)
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-image-preview': { inputPerMillion: 2.0, outputPerMillion: 120.0, flatPerImage: 0.134 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30.0, flatPerImage: 0.039 },
+};
+
+// Unknown models are billed like the most expensive one so estimates never undershoot
+export const DEFAULT_PRICING = MODEL_PRICING['gemini-3-pro-image-preview'];
+
+export const getModelPricing = (model: string): ModelPricing => MODEL_PRICING[model] || DEFAULT_PRICING;
+
+export const estimateCost = (model: string, usage?: TokenUsage): number => {
+  const pricing = getModelPricing(model);
+  if (!usage || (!usage.promptTokens && !usage.outputTokens)) {
+    return pricing.flatPerImage;
+  }
+  return (usage.promptTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
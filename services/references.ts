@@ -0,0 +1,56 @@
+import { ReferenceImage } from '../types';
+import { createCanvas, EXPORT_QUALITY, loadImage } from './imageOps';
+
+// References only guide the model, so a modest size keeps requests small
+export const REFERENCE_MAX_EDGE = 1024;
+
+export interface ReferencePayload {
+  label: string;
+  imageBase64: string;
+  mimeType: string;
+}
+
+const labelFromFileName = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'reference';
+
+/**
+ * Reads and downscales a reference image. Formats that may carry transparency
+ * (logos, cutouts) stay PNG, everything else becomes JPEG.
+ */
+export const fileToReference = async (file: File): Promise<ReferenceImage> => {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(objectUrl);
+    const scale = Math.min(1, REFERENCE_MAX_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+    const { canvas, ctx } = createCanvas({
+      width: Math.round(img.naturalWidth * scale),
+      height: Math.round(img.naturalHeight * scale)
+    });
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const keepAlpha = /png|webp|gif|svg/.test(file.type);
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      label: labelFromFileName(file.name),
+      dataUrl: keepAlpha ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', EXPORT_QUALITY)
+    };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Batch references first, then the item's own; a reference already present is not repeated.
+ */
+export const mergeReferences = (...lists: (ReferenceImage[] | undefined)[]): ReferenceImage[] => {
+  const seen = new Set<string>();
+  return lists.flatMap(list => list ?? []).filter(ref => {
+    if (seen.has(ref.id)) return false;
+    seen.add(ref.id);
+    return true;
+  });
+};
+
+export const toReferencePayloads = (references: ReferenceImage[]): ReferencePayload[] =>
+  references.map(({ label, dataUrl }) => {
+    const [header, imageBase64] = dataUrl.split(',');
+    return { label, imageBase64, mimeType: header.slice(5, header.indexOf(';')) };
+  });
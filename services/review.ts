@@ -0,0 +1,13 @@
+import { ImageItem, ProcessStatus } from '../types';
+
+// Review decisions sit on top of 'success': all three mean there is a result to look at
+export const hasResultStatus = (status: ProcessStatus) =>
+  status === 'success' || status === 'approved' || status === 'rejected';
+
+export const isReviewable = (item: ImageItem) => hasResultStatus(item.status) && !!item.resultUrl;
+
+/**
+ * Adds a reviewer's note to the prompt used for a regeneration.
+ */
+export const appendReviewNote = (prompt: string, note: string | undefined) =>
+  note?.trim() ? [prompt.trim(), note.trim()].filter(Boolean).join(' ') : prompt;
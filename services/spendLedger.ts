@@ -0,0 +1,54 @@
+import { BudgetSettings, SpendEntry, SpendTotals } from '../types';
+import { STORES, withStore } from './db';
+
+const BUDGET_STORAGE_KEY = 'nano_budget';
+
+export const recordSpend = async (entry: Omit<SpendEntry, 'id' | 'timestamp'>): Promise<SpendEntry> => {
+  const record: SpendEntry = {
+    ...entry,
+    id: Math.random().toString(36).substr(2, 9),
+    timestamp: Date.now()
+  };
+  await withStore(STORES.spend, 'readwrite', store => store.put(record));
+  return record;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+
+/**
+ * Sums the ledger for the current calendar day and month (local time).
+ */
+export const getSpendTotals = async (now = new Date()): Promise<SpendTotals> => {
+  const dayStart = startOfDay(now);
+  const monthEntries = await withStore<SpendEntry[]>(STORES.spend, 'readonly', store =>
+    store.index('timestamp').getAll(IDBKeyRange.lowerBound(startOfMonth(now)))
+  );
+
+  return monthEntries.reduce<SpendTotals>((totals, entry) => ({
+    todayCost: totals.todayCost + (entry.timestamp >= dayStart ? entry.cost : 0),
+    todayGenerations: totals.todayGenerations + (entry.timestamp >= dayStart ? 1 : 0),
+    monthCost: totals.monthCost + entry.cost,
+    monthGenerations: totals.monthGenerations + 1
+  }), { todayCost: 0, todayGenerations: 0, monthCost: 0, monthGenerations: 0 });
+};
+
+export const loadBudget = (): BudgetSettings => {
+  try {
+    const stored = localStorage.getItem(BUDGET_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn("Could not read budget settings", e);
+  }
+  return { limit: null, period: 'month' };
+};
+
+export const saveBudget = (budget: BudgetSettings) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+export const isBudgetExceeded = (budget: BudgetSettings, totals: SpendTotals) => {
+  if (budget.limit === null) return false;
+  const spent = budget.period === 'day' ? totals.todayCost : totals.monthCost;
+  return spent >= budget.limit;
+};
@@ -0,0 +1,75 @@
+import { AspectRatioValue, ImageItem, OutputSize } from '../types';
+import { parseRatio } from './aspectRatios';
+import { createCanvas } from './imageOps';
+
+export const MAX_PROMPT_ITEMS = 8;
+
+// Long edge of the stand-in source shown until the first generation
+const PLACEHOLDER_LONG_EDGE = 320;
+
+export interface TextToImageRequest {
+  prompt: string;
+  count: number;
+  aspectRatio: AspectRatioValue;
+  generate: boolean; // Queue the new items straight away
+}
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'prompt';
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string) =>
+  new Promise<File>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(new File([blob], name, { type: 'image/png' })) : reject(new Error('Canvas export failed'))), 'image/png');
+  });
+
+const placeholderSize = (aspectRatio: AspectRatioValue): OutputSize => {
+  const ratio = parseRatio(aspectRatio) ?? { width: 1, height: 1 };
+  const scale = PLACEHOLDER_LONG_EDGE / Math.max(ratio.width, ratio.height);
+  return { width: Math.round(ratio.width * scale), height: Math.round(ratio.height * scale) };
+};
+
+const renderPlaceholder = (size: OutputSize, name: string) => {
+  const { canvas, ctx } = createCanvas(size);
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, '#1e293b');
+  gradient.addColorStop(1, '#0f172a');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvasToFile(canvas, name);
+};
+
+/**
+ * Creates `count` items with a synthetic origin: a blank stand-in source at the
+ * requested ratio that the first generation replaces with the generated image.
+ */
+export const createPromptItems = async ({ prompt, count, aspectRatio }: TextToImageRequest): Promise<ImageItem[]> => {
+  const slug = slugify(prompt);
+  const size = placeholderSize(aspectRatio);
+  const items: ImageItem[] = [];
+  for (let i = 0; i < count; i++) {
+    const file = await renderPlaceholder(size, `${slug}-${i + 1}.png`);
+    items.push({
+      id: Math.random().toString(36).substr(2, 9),
+      originalFile: file,
+      previewUrl: URL.createObjectURL(file),
+      metadata: {
+        ...size,
+        sizeBytes: file.size,
+        mimeType: file.type
+      },
+      originPrompt: prompt,
+      placeholder: true,
+      overrides: { aspectRatio },
+      status: 'idle'
+    });
+  }
+  return items;
+};
+
+/**
+ * Turns a generated image into the item's source file, keeping the stand-in's name.
+ */
+export const resultToSourceFile = async (dataUrl: string, name: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], name.replace(/\.[^.]+$/, '') + '.' + (blob.type.split('/')[1] || 'png'), { type: blob.type });
+};
@@ -0,0 +1,91 @@
+import { OutputSize } from '../types';
+
+// Baseline TIFF tags this decoder reads
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  extraSamples: 338,
+} as const;
+
+export interface DecodedTiff {
+  size: OutputSize;
+  rgba: Uint8ClampedArray<ArrayBuffer>;
+  hasAlpha: boolean;
+}
+
+/**
+ * Minimal decoder for uncompressed, 8-bit, chunky TIFFs (greyscale, RGB or RGBA) —
+ * what scanners and most "save as TIFF" exports write. Anything else throws, so the
+ * caller can report the file instead of rendering garbage.
+ */
+export const decodeTiff = (buffer: ArrayBuffer): DecodedTiff => {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Not a TIFF file');
+  const little = order === 0x4949;
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  // Read every entry of the first IFD as a list of numbers
+  const ifd = u32(4);
+  const tags = new Map<number, number[]>();
+  for (let i = 0, count = u16(ifd); i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const type = u16(entry + 2);
+    const n = u32(entry + 4);
+    const size = type === 3 ? 2 : type === 4 ? 4 : 1;
+    const dataOffset = n * size > 4 ? u32(entry + 8) : entry + 8;
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const at = dataOffset + j * size;
+      values.push(size === 2 ? u16(at) : size === 4 ? u32(at) : view.getUint8(at));
+    }
+    tags.set(u16(entry), values);
+  }
+
+  const tag = (id: number, fallback?: number) => tags.get(id)?.[0] ?? fallback;
+  const width = tag(TAG.width);
+  const height = tag(TAG.height);
+  const samples = tag(TAG.samplesPerPixel, 1)!;
+  const photometric = tag(TAG.photometric, 2)!;
+  if (!width || !height) throw new Error('TIFF has no dimensions');
+  if (tag(TAG.compression, 1) !== 1) throw new Error('Compressed TIFFs are not supported');
+  if (tag(TAG.planarConfig, 1) !== 1) throw new Error('Planar TIFFs are not supported');
+  if ((tags.get(TAG.bitsPerSample) ?? [8]).some(bits => bits !== 8)) throw new Error('Only 8-bit TIFFs are supported');
+  if (photometric > 2) throw new Error('Only greyscale and RGB TIFFs are supported');
+
+  const offsets = tags.get(TAG.stripOffsets) ?? [];
+  const counts = tags.get(TAG.stripByteCounts) ?? [];
+  const bytes = new Uint8Array(buffer);
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  const hasAlpha = (photometric === 2 && samples >= 4) || (photometric < 2 && samples >= 2 && tags.has(TAG.extraSamples));
+
+  let pixel = 0;
+  const total = width * height;
+  for (let s = 0; s < offsets.length && pixel < total; s++) {
+    const end = offsets[s] + (counts[s] ?? 0);
+    for (let at = offsets[s]; at + samples <= end && pixel < total; at += samples, pixel++) {
+      const out = pixel * 4;
+      if (photometric === 2) {
+        rgba[out] = bytes[at];
+        rgba[out + 1] = bytes[at + 1];
+        rgba[out + 2] = bytes[at + 2];
+      } else {
+        // 0 = WhiteIsZero, 1 = BlackIsZero
+        const grey = photometric === 0 ? 255 - bytes[at] : bytes[at];
+        rgba[out] = rgba[out + 1] = rgba[out + 2] = grey;
+      }
+      rgba[out + 3] = hasAlpha ? bytes[at + samples - 1] : 255;
+    }
+  }
+  if (pixel < total) throw new Error('TIFF image data is truncated');
+
+  return { size: { width, height }, rgba, hasAlpha };
+};
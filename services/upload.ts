@@ -0,0 +1,131 @@
+import { OutputSize, UploadReport, UploadSettings } from '../types';
+import { createCanvas, loadImage } from './imageOps';
+import { splitDataUrl } from './ingest';
+import { ReferencePayload } from './references';
+
+const UPLOAD_STORAGE_KEY = 'nano_upload_settings';
+
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = { maxLongEdge: 3072, quality: 0.9 };
+export const UPLOAD_EDGE_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+export const UPLOAD_QUALITY_OPTIONS = [0.95, 0.9, 0.85, 0.8, 0.7];
+
+// Netlify rejects synchronous function requests over 6 MB; the rest covers JSON and the prompt
+export const MAX_REQUEST_BYTES = 5_500_000;
+const MASK_RESERVE_BYTES = 300_000;
+
+// Each pass over budget shrinks the image by this factor and lowers quality a little
+const SHRINK_FACTOR = 0.8;
+const QUALITY_STEP = 0.05;
+const MIN_QUALITY = 0.6;
+const MAX_PASSES = 8;
+
+export const loadUploadSettings = (): UploadSettings => {
+  try {
+    const stored = localStorage.getItem(UPLOAD_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_UPLOAD_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Could not read upload settings", e);
+  }
+  return DEFAULT_UPLOAD_SETTINGS;
+};
+
+export const saveUploadSettings = (settings: UploadSettings) => {
+  localStorage.setItem(UPLOAD_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Base64 bytes left for the source image once references and a mask are in the request.
+ */
+export const sourceBudget = (references: ReferencePayload[] = [], hasMask = false) =>
+  MAX_REQUEST_BYTES - references.reduce((sum, r) => sum + r.imageBase64.length, 0) - (hasMask ? MASK_RESERVE_BYTES : 0);
+
+export interface PreparedUpload {
+  data: string; // Bare base64
+  mimeType: string;
+  size: OutputSize;
+  report: UploadReport;
+}
+
+const base64Bytes = (data: string) => Math.round((data.length * 3) / 4);
+
+/**
+ * Re-encodes a source for upload: scaled to the configured long edge, then shrunk
+ * further until its base64 fits `budgetBytes`. Drawing through a canvas drops EXIF
+ * and other metadata; browsers apply the EXIF orientation when decoding, so the
+ * pixels come out upright. The caller keeps the untouched original for compositing.
+ */
+export const prepareUpload = async (
+  source: Blob | string | HTMLCanvasElement, // File, data URL or rendered frame
+  settings: UploadSettings,
+  budgetBytes: number,
+  originalBytes?: number // Size to report against when the source isn't the uploaded file
+): Promise<PreparedUpload> => {
+  let image: HTMLImageElement | HTMLCanvasElement;
+  let sourceType: string;
+  let sourceBytes: number;
+
+  if (source instanceof HTMLCanvasElement) {
+    image = source;
+    sourceType = 'image/jpeg';
+    sourceBytes = originalBytes ?? 0;
+  } else if (typeof source === 'string') {
+    image = await loadImage(source);
+    const { data, mimeType } = splitDataUrl(source);
+    sourceType = mimeType;
+    sourceBytes = originalBytes ?? base64Bytes(data);
+  } else {
+    const url = URL.createObjectURL(source);
+    try {
+      image = await loadImage(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    sourceType = source.type;
+    sourceBytes = originalBytes ?? source.size;
+  }
+
+  const originalSize = image instanceof HTMLCanvasElement
+    ? { width: image.width, height: image.height }
+    : { width: image.naturalWidth, height: image.naturalHeight };
+
+  // PNG and WebP keep transparency; everything else goes out as JPEG
+  let type = sourceType === 'image/png' || sourceType === 'image/webp' ? sourceType : 'image/jpeg';
+  let scale = Math.min(1, settings.maxLongEdge / Math.max(originalSize.width, originalSize.height));
+  let quality = settings.quality;
+  let lastBytes = 0;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const size = {
+      width: Math.max(1, Math.round(originalSize.width * scale)),
+      height: Math.max(1, Math.round(originalSize.height * scale))
+    };
+    const { canvas, ctx } = createCanvas(size);
+    if (type === 'image/jpeg') {
+      ctx.fillStyle = '#ffffff'; // JPEG has no alpha; transparent areas would turn black
+      ctx.fillRect(0, 0, size.width, size.height);
+    }
+    ctx.drawImage(image, 0, 0, size.width, size.height);
+    // Browsers without a WebP encoder hand back PNG, so label the bytes with what was produced
+    const { data, mimeType } = splitDataUrl(canvas.toDataURL(type, quality));
+
+    if (data.length <= budgetBytes) {
+      return {
+        data,
+        mimeType,
+        size,
+        report: { originalBytes: sourceBytes, sentBytes: base64Bytes(data), originalSize, sentSize: size, mimeType }
+      };
+    }
+    lastBytes = data.length;
+
+    // Lossless PNG rarely fits by shrinking alone, so switch to JPEG first
+    if (mimeType === 'image/png') {
+      type = 'image/jpeg';
+      continue;
+    }
+    scale *= SHRINK_FACTOR;
+    quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+  }
+
+  throw new Error(`Image is too large to upload: still ${(lastBytes / 1_000_000).toFixed(1)} MB encoded after downscaling (limit ${(budgetBytes / 1_000_000).toFixed(1)} MB)`);
+};
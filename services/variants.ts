@@ -0,0 +1,100 @@
+import { AspectRatio, AspectRatioValue, GenerationSettings, ImageItem, PromptPreset } from '../types';
+import { formatSize, sizeMatchesRatio } from './aspectRatios';
+import { CONVERSION_MODES, getConversionMode, isLocalMode } from './conversion';
+import { mergeReferences } from './references';
+
+/**
+ * One prompt source for a variant: either a preset or a free prompt.
+ */
+export type VariantPrompt = { presetId: string } | { prompt: string };
+
+export interface VariantRequest {
+  aspectRatios: AspectRatio[];
+  prompts: VariantPrompt[];
+}
+
+/**
+ * Switches the ratio, dropping an exact output size that no longer fits it.
+ */
+const withRatio = (settings: GenerationSettings, aspectRatio: AspectRatioValue): GenerationSettings => ({
+  ...settings,
+  aspectRatio,
+  outputSize: settings.outputSize && sizeMatchesRatio(settings.outputSize, aspectRatio) ? settings.outputSize : undefined
+});
+
+/**
+ * Local conversions never send the prompt, so a variant that carries one has to
+ * reach the model. Paid modes such as outpainting keep their own framing.
+ */
+const withPromptMode = (settings: GenerationSettings): GenerationSettings =>
+  isLocalMode(getConversionMode(settings)) ? { ...settings, conversionMode: 'ai' } : settings;
+
+/**
+ * Expands a request into one settings snapshot per (aspect ratio × prompt) pair.
+ * An empty list on either side means "keep the base value".
+ */
+export const buildVariantSettings = (base: GenerationSettings, request: VariantRequest): GenerationSettings[] => {
+  const ratios = request.aspectRatios.length > 0 ? request.aspectRatios : [base.aspectRatio];
+  const prompts: (VariantPrompt | null)[] = request.prompts.length > 0 ? request.prompts : [null];
+
+  return ratios.flatMap(aspectRatio => prompts.map(source => {
+    const sized = withRatio(base, aspectRatio);
+    if (!source) return sized;
+    if ('presetId' in source) {
+      return withPromptMode({ ...sized, presetId: source.presetId, prompt: '' });
+    }
+    return withPromptMode({ ...sized, presetId: undefined, presetVariables: undefined, prompt: source.prompt });
+  }));
+};
+
+/**
+ * Clones the source item once per snapshot, painted mask included. Variants of a
+ * variant attach to the same root so the grid keeps a single level of grouping.
+ */
+export const createVariantItems = (source: ImageItem, snapshots: GenerationSettings[]): ImageItem[] =>
+  snapshots.map(settings => ({
+    id: Math.random().toString(36).substr(2, 9),
+    originalFile: source.originalFile,
+    previewUrl: source.previewUrl,
+    metadata: source.metadata,
+    mask: source.mask,
+    parentId: source.parentId ?? source.id,
+    settings,
+    status: 'idle'
+  }));
+
+/**
+ * Short human label for a settings snapshot, e.g. "Remove Text · 9:16".
+ */
+export const describeSettings = (settings: GenerationSettings, presets: PromptPreset[]): string => {
+  const preset = settings.presetId ? presets.find(p => p.id === settings.presetId) : undefined;
+  const prompt = settings.prompt.trim();
+  const label = preset?.name ?? (prompt ? (prompt.length > 28 ? `${prompt.slice(0, 28)}…` : prompt) : 'Default');
+  const size = settings.outputSize ? ` · ${formatSize(settings.outputSize)}` : '';
+  const mode = settings.conversionMode && settings.conversionMode !== 'ai'
+    ? ` · ${CONVERSION_MODES.find(m => m.id === settings.conversionMode)?.label}`
+    : '';
+  return `${label} · ${settings.aspectRatio}${size}${mode}`;
+};
+
+/**
+ * Orders items so every variant directly follows its source.
+ * Variants whose source was removed are shown as standalone items.
+ */
+export const groupVariants = (items: ImageItem[]): ImageItem[] => {
+  const ids = new Set(items.map(i => i.id));
+  const roots = items.filter(i => !i.parentId || !ids.has(i.parentId));
+  return roots.flatMap(root => [root, ...items.filter(i => i.parentId === root.id)]);
+};
+
+/**
+ * Settings a queued item will run with. Variants keep their own snapshot, every
+ * other item takes the current global settings; card overrides win in both cases
+ * and the item's own references are appended to the batch ones.
+ */
+export const snapshotSettings = (item: ImageItem, global: GenerationSettings): GenerationSettings => {
+  const base = item.parentId && item.settings ? item.settings : global;
+  const overrides = Object.fromEntries(Object.entries(item.overrides ?? {}).filter(([, v]) => v !== undefined && v !== ''));
+  const merged = { ...base, ...overrides, references: mergeReferences(base.references, item.references) };
+  return withRatio(merged, merged.aspectRatio);
+};
@@ -0,0 +1,186 @@
+import { EditStep, GenerationSettings, ImageItem } from '../types';
+import { ItemStore } from '../state/itemStore';
+import { STORES, withStore, withTransaction } from './db';
+
+type PersistedStep = Omit<EditStep, 'resultUrl'>;
+
+type PersistedItem = Omit<ImageItem, 'originalFile' | 'previewUrl' | 'resultUrl' | 'history'> & {
+  history?: PersistedStep[];
+  order: number;
+  fileName: string;
+  fileType: string;
+  fileLastModified: number;
+  hasResult: boolean;
+};
+
+const SETTINGS_KEY = 'settings';
+const SYNC_DELAY_MS = 300;
+
+const originalKey = (id: string) => `${id}/original`;
+const resultKey = (id: string) => `${id}/result`;
+const stepKey = (id: string, stepId: string) => `${id}/step/${stepId}`;
+
+// Once an item has edit steps its result is one of them, so only older items store it separately
+const standaloneResult = (item: ImageItem) => (item.activeStepId ? undefined : item.resultUrl);
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toRecord = (item: ImageItem, order: number): PersistedItem => {
+  const { originalFile, previewUrl, resultUrl, history, ...rest } = item;
+  return {
+    ...rest,
+    history: history?.map(({ resultUrl: _, ...step }) => step),
+    order,
+    fileName: originalFile.name,
+    fileType: originalFile.type,
+    fileLastModified: originalFile.lastModified,
+    hasResult: !!standaloneResult(item)
+  };
+};
+
+/**
+ * Restores every saved item with its original file, result and edit history.
+ * Items whose original is missing are skipped rather than restored half-broken;
+ * edit steps whose image is missing are dropped.
+ */
+export const loadWorkspace = async (): Promise<{ items: ImageItem[]; settings?: GenerationSettings }> => {
+  const records = await withStore<PersistedItem[]>(STORES.items, 'readonly', store => store.getAll());
+  const settings = await withStore<GenerationSettings | undefined>(STORES.meta, 'readonly', store => store.get(SETTINGS_KEY));
+
+  const items: ImageItem[] = [];
+  for (const record of records.sort((a, b) => a.order - b.order)) {
+    const { order, fileName, fileType, fileLastModified, hasResult, history: steps, ...rest } = record;
+    const original = await withStore<Blob | undefined>(STORES.blobs, 'readonly', store => store.get(originalKey(record.id)));
+    if (!original) continue;
+
+    const originalFile = new File([original], fileName, { type: fileType, lastModified: fileLastModified });
+    const result = hasResult
+      ? await withStore<Blob | undefined>(STORES.blobs, 'readonly', store => store.get(resultKey(record.id)))
+      : undefined;
+
+    const history: EditStep[] = [];
+    for (const step of steps ?? []) {
+      const blob = await withStore<Blob | undefined>(STORES.blobs, 'readonly', store => store.get(stepKey(record.id, step.id)));
+      if (blob) history.push({ ...step, resultUrl: await blobToDataUrl(blob) });
+    }
+    const activeStep = history.find(s => s.id === rest.activeStepId);
+
+    items.push({
+      ...rest,
+      history: history.length > 0 ? history : undefined,
+      activeStepId: activeStep?.id,
+      originalFile,
+      previewUrl: URL.createObjectURL(originalFile),
+      resultUrl: activeStep?.resultUrl ?? (result ? await blobToDataUrl(result) : undefined)
+    });
+  }
+
+  return { items, settings };
+};
+
+export const saveSettings = (settings: GenerationSettings) =>
+  withStore(STORES.meta, 'readwrite', store => store.put(settings, SETTINGS_KEY));
+
+/**
+ * Wipes saved items, blobs and settings. The spend ledger is kept.
+ */
+export const clearWorkspace = () =>
+  withTransaction([STORES.items, STORES.blobs, STORES.meta], 'readwrite', tx => {
+    tx.objectStore(STORES.items).clear();
+    tx.objectStore(STORES.blobs).clear();
+    tx.objectStore(STORES.meta).clear();
+  });
+
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/**
+ * Mirrors the item store into IndexedDB. Writes are debounced and serialised;
+ * only items whose object or position changed are rewritten, and blobs are only
+ * written when the original file, the result URL or the set of edit steps changed.
+ */
+export const syncWorkspace = (store: ItemStore, onSaved?: () => void): (() => void) => {
+  const saved = new Map<string, { item: ImageItem; order: number }>();
+  store.getState().forEach((item, order) => saved.set(item.id, { item, order }));
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing = Promise.resolve();
+
+  const flush = async () => {
+    const items = store.getState();
+    const currentIds = new Set(items.map(i => i.id));
+    const removed = [...saved.keys()].filter(id => !currentIds.has(id));
+    const changed = items
+      .map((item, order) => ({ item, order, previous: saved.get(item.id) }))
+      .filter(({ item, order, previous }) => !previous || previous.item !== item || previous.order !== order);
+
+    if (removed.length === 0 && changed.length === 0) return;
+
+    // Blob conversion is async, so do it before opening the transaction
+    const resultBlobs = new Map<string, Blob | null>();
+    const stepBlobs = new Map<string, Blob | null>();
+    for (const { item, previous } of changed) {
+      const result = standaloneResult(item);
+      if (result !== (previous && standaloneResult(previous.item))) {
+        resultBlobs.set(item.id, result ? await dataUrlToBlob(result) : null);
+      }
+      const previousSteps = new Set(previous?.item.history?.map(s => s.id));
+      const currentSteps = new Set(item.history?.map(s => s.id));
+      for (const step of item.history ?? []) {
+        if (!previousSteps.has(step.id)) stepBlobs.set(stepKey(item.id, step.id), await dataUrlToBlob(step.resultUrl));
+      }
+      previousSteps.forEach(stepId => {
+        if (!currentSteps.has(stepId)) stepBlobs.set(stepKey(item.id, stepId), null);
+      });
+    }
+
+    await withTransaction([STORES.items, STORES.blobs], 'readwrite', tx => {
+      const records = tx.objectStore(STORES.items);
+      const blobs = tx.objectStore(STORES.blobs);
+
+      for (const id of removed) {
+        records.delete(id);
+        blobs.delete(originalKey(id));
+        blobs.delete(resultKey(id));
+        saved.get(id)?.item.history?.forEach(step => blobs.delete(stepKey(id, step.id)));
+      }
+      for (const { item, order, previous } of changed) {
+        records.put(toRecord(item, order));
+        if (previous?.item.originalFile !== item.originalFile) blobs.put(item.originalFile, originalKey(item.id));
+        const result = resultBlobs.get(item.id);
+        if (result) blobs.put(result, resultKey(item.id));
+        if (result === null) blobs.delete(resultKey(item.id));
+      }
+      stepBlobs.forEach((blob, key) => (blob ? blobs.put(blob, key) : blobs.delete(key)));
+    });
+
+    removed.forEach(id => saved.delete(id));
+    changed.forEach(({ item, order }) => saved.set(item.id, { item, order }));
+    onSaved?.();
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      writing = writing.then(flush).catch(e => console.warn("Workspace save failed", e));
+    }, SYNC_DELAY_MS);
+  };
+
+  const unsubscribe = store.subscribe(schedule);
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+};
@@ -0,0 +1,59 @@
+import { useSyncExternalStore } from 'react';
+import { ImageItem } from '../types';
+
+export type ItemAction =
+  | { type: 'add'; items: ImageItem[]; afterId?: string }
+  | { type: 'update'; id: string; patch: Partial<ImageItem> }
+  | { type: 'remove'; id: string }
+  | { type: 'clear' };
+
+export const itemsReducer = (state: ImageItem[], action: ItemAction): ImageItem[] => {
+  switch (action.type) {
+    case 'add': {
+      const idx = action.afterId ? state.findIndex(i => i.id === action.afterId) : -1;
+      if (idx === -1) return [...state, ...action.items];
+      return [...state.slice(0, idx + 1), ...action.items, ...state.slice(idx + 1)];
+    }
+    case 'update':
+      return state.map(i => i.id === action.id ? { ...i, ...action.patch } : i);
+    case 'remove':
+      return state.filter(i => i.id !== action.id);
+    case 'clear':
+      return [];
+    default:
+      return state;
+  }
+};
+
+export interface ItemStore {
+  getState: () => ImageItem[];
+  getItem: (id: string) => ImageItem | undefined;
+  dispatch: (action: ItemAction) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Holds the item list outside React so long-running jobs always read the
+ * current state instead of whatever was captured when they were started.
+ */
+export const createItemStore = (initial: ImageItem[] = []): ItemStore => {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    getItem: (id) => state.find(i => i.id === id),
+    dispatch: (action) => {
+      const next = itemsReducer(state, action);
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
+
+export const useItems = (store: ItemStore) => useSyncExternalStore(store.subscribe, store.getState);
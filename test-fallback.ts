@@ -1,5 +1,9 @@
+import { HandlerResponse } from '@netlify/functions';
 import { handler } from './netlify/functions/nano-banana';
 
+// Run against the offline mock unless a real provider is requested explicitly
+process.env.IMAGE_PROVIDER = process.env.IMAGE_PROVIDER || 'mock';
+
 // tiny 1x1 white PNG base64 (no data URI prefix)
 const tinyPngBase64 =
     'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/5+BFwAE/wJ+6UeVAAAAAElFTkSuQmCC';
@@ -17,8 +21,8 @@ const event = {
 
 (async () => {
     try {
-        const response = await handler(event);
-        console.log('Handler response:', response);
+        const response = await handler(event, {} as any, () => { }) as HandlerResponse;
+        console.log('Handler response:', response.statusCode, response.body?.slice(0, 120));
     } catch (e) {
         console.error('Error invoking handler:', e);
     }
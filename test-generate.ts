@@ -12,7 +12,6 @@ const apiKey = 'YOUR_API_KEY_HERE'; // user-provided key
             tinyPngBase64,
             'Enhance the image',
             '1:1', // aspect ratio placeholder (string now)
-            false, // usePro
             apiKey
         );
         console.log('Generation succeeded:', result);
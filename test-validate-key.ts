@@ -0,0 +1,24 @@
+import { HandlerResponse } from '@netlify/functions';
+import { handler } from './netlify/functions/validate-key';
+
+// Run against the offline mock unless a real provider is requested explicitly
+process.env.IMAGE_PROVIDER = process.env.IMAGE_PROVIDER || 'mock';
+
+const validate = async (apiKey: string) => {
+    const event = {
+        httpMethod: 'POST',
+        body: JSON.stringify({ apiKey }),
+    } as any;
+    const result = await handler(event, {} as any, () => { }) as HandlerResponse;
+    return JSON.parse(result.body || '{}');
+};
+
+(async () => {
+    console.log("--- Starting Key Validation Verification ---");
+    try {
+        console.log("Valid key:", await validate('YOUR_API_KEY_HERE'));
+        console.log("Invalid key:", await validate('invalid-key'));
+    } catch (e: any) {
+        console.error("Test failed with exception:", e.message);
+    }
+})();
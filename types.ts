@@ -4,18 +4,107 @@ export enum AspectRatio {
   LANDSCAPE = "4:3",
   MOBILE = "9:16",
   YOUTUBE = "16:9",
+  ULTRAWIDE = "21:9",
+  CLASSIC_PORTRAIT = "2:3",
+  SOCIAL_PORTRAIT = "4:5",
+  AD_LANDSCAPE = "1.91:1",
 }
 
-export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+// Any W:H ratio, e.g. "5:4" or "2.35:1"; the enum covers the common ones
+export type AspectRatioValue = AspectRatio | `${number}:${number}`;
+
+// Native output resolution; only some models accept it
+export type ImageSize = '1K' | '2K' | '4K';
+
+// How an image is brought to the target ratio: by the model, or locally on a canvas at no cost
+export type ConversionMode = 'ai' | 'crop' | 'blur-letterbox' | 'pad' | 'pad-outpaint';
+
+export interface OutputSize {
+  width: number;
+  height: number;
+}
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export interface EncoderOptions {
+  quality: number; // 0-1, ignored by PNG
+  lossless?: boolean; // WebP and AVIF only
+}
 
 export interface ImageMetadata {
   width: number;
   height: number;
   sizeBytes: number;
   mimeType: string;
+  convertedFrom?: string; // Format of the uploaded file when it had to be converted on import
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface UploadReport {
+  originalBytes: number;
+  sentBytes: number; // Decoded size of the image payload that was sent
+  originalSize: OutputSize;
+  sentSize: OutputSize;
+  mimeType: string;
+}
+
+export interface GenerationInfo {
+  model: string; // Model that actually produced the image
+  mimeType: string; // MIME type returned by the model, before export conversion
+  returnedSize?: OutputSize; // Model output size when it was resized to an exact target
+  aspectRatioMode?: 'config' | 'prompt'; // How the ratio reached the model
+  ratioMismatch?: { expected: string; actual: OutputSize }; // Set when the model ignored the requested ratio
+  upload?: UploadReport; // What was actually sent for the source image
+  fallbackUsed: boolean;
+  usage?: TokenUsage;
+  latencyMs: number;
+  cost?: number; // Estimated USD cost of this generation
+  discardedCost?: number; // Estimated USD cost of ratio-mismatch results regenerated before this one
+}
+
+export type GenerationErrorClass = 'auth' | 'quota' | 'safety' | 'bad_input' | 'model_unavailable' | 'transient';
+
+// Stages reported by the streaming generation function
+export type GenerationStage = 'received' | 'attempt' | 'fallback' | 'image' | 'done';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  model?: string; // Model being tried, fallen back to, or that produced the image
+  attempt?: number; // Try number for that model (1-based)
+  fallbackFrom?: string; // Model that failed before a fallback
+  message?: string; // Why the fallback happened
+  at: number; // Epoch ms the client received the event
+}
+
+export interface RetryState {
+  attempt: number; // Attempt currently running or scheduled (1-based)
+  maxAttempts: number;
+  nextRetryAt?: number; // Epoch ms of the scheduled retry, unset while an attempt is running
+  lastError?: string;
+}
+
+export interface EditStep {
+  id: string;
+  parentStepId?: string; // Step whose result this one edited; unset when generated from the original
+  prompt: string; // Instruction that produced this step
+  resultUrl: string;
+  resultMetadata: ImageMetadata;
+  generation?: GenerationInfo; // Unset for local conversions
+  createdAt: number;
+}
+
+export interface PendingEdit {
+  prompt: string;
+  fromStepId: string; // Step whose result is sent as the input
 }
 
-export type ProcessStatus = 'idle' | 'processing' | 'success' | 'error';
+// 'approved' and 'rejected' are review decisions on a finished result
+export type ProcessStatus = 'idle' | 'queued' | 'processing' | 'success' | 'error' | 'approved' | 'rejected';
 
 export interface ImageItem {
   id: string;
@@ -23,23 +112,114 @@ export interface ImageItem {
   previewUrl: string; // Object URL for display
   metadata: ImageMetadata;
 
+  // Variants
+  parentId?: string; // Source item this variant was spawned from
+
+  // Text-to-image
+  originPrompt?: string; // Prompt the item was created from, when it didn't start as an upload
+  placeholder?: boolean; // originalFile is a stand-in until the first generation supplies the real source
+
+  // Per-item Settings
+  settings?: GenerationSettings; // Snapshot taken when queued (or when the variant was created)
+  overrides?: SettingsOverrides; // Per-card values that win over the global settings
+  mask?: string; // PNG data URL at source resolution; opaque pixels mark the region the model may edit
+  references?: ReferenceImage[]; // Pinned to this item only, sent after the batch references
+
   // Processing State
   status: ProcessStatus;
   errorMessage?: string;
+  reviewNote?: string; // Appended to the prompt when the item is regenerated
+  retry?: RetryState;
+  progress?: GenerationProgress[]; // Server stages of the running request, newest last
 
-  // Result
+  // Result (mirrors the active edit step once there is one)
   resultUrl?: string;
   resultMetadata?: ImageMetadata;
+  generation?: GenerationInfo;
+
+  // Edit History
+  history?: EditStep[]; // Every result in creation order; steps form a tree through parentStepId
+  activeStepId?: string;
+  pendingEdit?: PendingEdit; // Follow-up edit the next job runs instead of a full generation
+}
+
+export interface GenerationJob {
+  id: string; // ImageItem id
+}
+
+export interface ReferenceImage {
+  id: string;
+  label: string; // Tells the model what the image is, e.g. "brand style frame"
+  dataUrl: string; // Downscaled copy that is sent with every request
+}
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  prompt: string; // May contain {{variable}} placeholders
+  tags: string[];
+  builtIn?: boolean;
 }
 
 export interface GenerationSettings {
-  prompt: string;
-  aspectRatio: AspectRatio;
+  prompt: string; // Free prompt, or extra instructions appended to the preset
+  aspectRatio: AspectRatioValue;
+  outputSize?: OutputSize; // Exact pixel size enforced after generation
+  imageSize?: ImageSize;
+  retryOnRatioMismatch?: boolean; // Regenerate once when the model returns the wrong ratio
+  conversionMode?: ConversionMode; // Defaults to 'ai'
+  padColor?: string; // CSS colour for the padding modes
+  references?: ReferenceImage[]; // Pinned to the whole batch
   exportFormat: ExportFormat;
+  encoding?: Partial<Record<ExportFormat, EncoderOptions>>; // Per-format quality; unset formats use the default
+  presetId?: string;
+  presetVariables?: Record<string, string>;
+}
+
+export type SettingsOverrides = Partial<Pick<GenerationSettings, 'prompt' | 'aspectRatio' | 'exportFormat' | 'conversionMode' | 'padColor'>>;
+
+export interface SpendEntry {
+  id: string;
+  timestamp: number;
+  itemId: string;
+  model: string;
+  usage?: TokenUsage;
+  cost: number; // USD
 }
 
-export interface CreditInfo {
+export interface SpendTotals {
+  todayCost: number;
+  todayGenerations: number;
+  monthCost: number;
+  monthGenerations: number;
+}
+
+export interface CreditInfo extends SpendTotals {
   sessionGenerations: number;
   estimatedSessionCost: number;
-  costPerImage: number;
-}
\ No newline at end of file
+}
+
+export interface UploadSettings {
+  maxLongEdge: number; // Sources are downscaled to this before upload
+  quality: number; // 0-1, for lossy re-encoding
+}
+
+export interface BudgetSettings {
+  limit: number | null; // USD, null = no cap
+  period: 'day' | 'month';
+}
+
+export type ExportGrouping = 'none' | 'ratio' | 'preset' | 'source';
+
+// Sets of source EXIF fields that can be carried over to exported files
+export type ExifGroup = 'camera' | 'date' | 'copyright' | 'location';
+
+export interface ExportOptions {
+  nameTemplate: string; // e.g. "{original}_{ratio}_{index}"
+  groupBy: ExportGrouping; // Folder per group inside the ZIP
+  exifGroups: ExifGroup[]; // Copied from the original file
+  keepColorProfile: boolean; // Embed the original's ICC profile
+  provenance: boolean; // Tag files with model, prompt, tool version and time (XMP / PNG text)
+  responsiveWidths: number[]; // Extra downscaled copies per result in the ZIP; empty for none
+  srcsetSnippet: boolean; // Write an <img srcset> HTML file next to each responsive set
+}